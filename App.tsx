@@ -1,26 +1,151 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import Scene from './components/Scene';
-import { TreeState, TreeMode, PhotoData } from './types';
-import { Zap, X, Image as ImageIcon } from 'lucide-react';
+import { TreeState, TreeMode, PhotoData, PhotoLayoutId, FrameStyle, LightPatternId, LightDrapeId, TreeConfig, ThemeId, QualityTierId, ShapeTarget, TopperId, GesturePointer, TrackedHand, GestureActionId, OrnamentDetails, CustomOrnamentKind } from './types';
+import { PHOTO_LAYOUTS } from './utils/photoLayouts';
+import { FRAME_STYLES } from './components/FrameStyles';
+import { MAX_SEED, randomSeed } from './utils/random';
+import { DEFAULT_TREE_CONFIG, parseTreeConfig } from './utils/treeConfig';
+import { THEMES } from './utils/themes';
+import { LIGHT_PATTERNS, LIGHT_DRAPES } from './utils/stringLights';
+import { QUALITY_TIERS, DEFAULT_QUALITY_TIER, getQualityTier, stepQualityTier, isQualityTierId } from './utils/quality';
+
+import { Zap, Dices, Snowflake, Hand } from 'lucide-react';
 import { useDrag } from '@use-gesture/react';
 import GestureControl from './components/GestureControl';
+import GestureSettings from './components/GestureSettings';
+import PhotoManager from './components/PhotoManager';
+import PhotoModal from './components/PhotoModal';
+import TreeConfigPanel from './components/TreeConfigPanel';
+import ShapeControl from './components/ShapeControl';
+import TopperControl from './components/TopperControl';
+import { TopperModel, disposeTopperModel } from './utils/topperModel';
+import OrnamentCard from './components/OrnamentCard';
+import OrnamentPalette from './components/OrnamentPalette';
+import GiftCard from './components/GiftCard';
+import { DecorEditor } from './components/HandPlacedOrnaments';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary';
+import { useCustomOrnaments } from './hooks/useCustomOrnaments';
+import { useGiftTags } from './hooks/useGiftTags';
+import { useGestureBindings } from './hooks/useGestureBindings';
+
+// The last seed is kept so a reload shows the same tree
+const SEED_STORAGE_KEY = 'luxury-tree:seed';
+
+const loadSeed = () => {
+  const stored = parseInt(localStorage.getItem(SEED_STORAGE_KEY) ?? '', 10);
+  return Number.isInteger(stored) && stored >= 0 && stored <= MAX_SEED ? stored : randomSeed();
+};
+
+const CONFIG_STORAGE_KEY = 'luxury-tree:config';
+const THEME_STORAGE_KEY = 'luxury-tree:theme';
+
+const loadTheme = (): ThemeId => {
+  const stored = localStorage.getItem(THEME_STORAGE_KEY);
+  return THEMES.find(theme => theme.id === stored)?.id ?? 'grandLuxury';
+};
+
+// Kept per browser, so each device remembers its own tier
+const QUALITY_STORAGE_KEY = 'luxury-tree:quality';
+
+interface QualitySettings {
+  mode: QualityTierId | 'auto'; // 'auto' lets the governor choose
+  autoTier: QualityTierId; // Where the governor last settled
+}
+
+const loadQualitySettings = (): QualitySettings => {
+  const defaults: QualitySettings = { mode: 'auto', autoTier: DEFAULT_QUALITY_TIER };
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUALITY_STORAGE_KEY) ?? 'null');
+    if (!stored) return defaults;
+    return {
+      mode: stored.mode === 'auto' || isQualityTierId(stored.mode) ? stored.mode : defaults.mode,
+      autoTier: isQualityTierId(stored.autoTier) ? stored.autoTier : defaults.autoTier,
+    };
+  } catch (err) {
+    console.warn("Ignoring stored quality settings:", err);
+    return defaults;
+  }
+};
+
+const loadTreeConfig = (): TreeConfig => {
+  const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!stored) return DEFAULT_TREE_CONFIG;
+  try {
+    return parseTreeConfig(JSON.parse(stored));
+  } catch (err) {
+    console.warn("Ignoring stored tree config:", err);
+    return DEFAULT_TREE_CONFIG;
+  }
+};
 
 const App: React.FC = () => {
-  const [treeState, setTreeState] = useState<TreeState>({
+  const [treeState, setTreeState] = useState<TreeState>(() => ({
     mode: TreeMode.FORMED,
     rotationSpeed: 0.5,
     lightIntensity: 2.5,
+    lightPattern: 'twinkle',
+    lightDrape: 'helix',
     showGoldDust: true,
-  });
+    showSnow: false,
+    snowIntensity: 0.5,
+    snowWind: 0.2,
+    snowSparkle: true,
+    photoLayout: 'spiral',
+    frameStyle: FrameStyle.POLAROID,
+    seed: loadSeed(),
+    theme: loadTheme(),
+    shape: { kind: 'heart' },
+    topper: 'grandStar',
+  }));
+
+  // Imported topper; kept for this visit only
+  const [customTopper, setCustomTopper] = useState<TopperModel | null>(null);
+
+  // Once a new model replaces it, the old one is off the tree
+  useEffect(() => {
+    if (!customTopper) return;
+    return () => disposeTopperModel(customTopper);
+  }, [customTopper]);
+
+  useEffect(() => {
+    localStorage.setItem(SEED_STORAGE_KEY, String(treeState.seed));
+  }, [treeState.seed]);
+
+  useEffect(() => {
+    localStorage.setItem(THEME_STORAGE_KEY, treeState.theme);
+  }, [treeState.theme]);
+
+  const [treeConfig, setTreeConfig] = useState<TreeConfig>(loadTreeConfig);
+
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(loadQualitySettings);
+  const quality = getQualityTier(qualitySettings.mode === 'auto' ? qualitySettings.autoTier : qualitySettings.mode);
 
-  const [activePhoto, setActivePhoto] = useState<PhotoData | null>(null);
-  const [imgError, setImgError] = useState(false);
+  useEffect(() => {
+    localStorage.setItem(QUALITY_STORAGE_KEY, JSON.stringify(qualitySettings));
+  }, [qualitySettings]);
+
+  const handleQualityStep = useCallback((direction: 1 | -1) => {
+    setQualitySettings(settings => ({ ...settings, autoTier: stepQualityTier(settings.autoTier, direction) }));
+  }, []);
 
-  // Reset image error state when active photo changes
   useEffect(() => {
-    setImgError(false);
-  }, [activePhoto]);
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(treeConfig));
+  }, [treeConfig]);
+
+  const [activePhotoId, setActivePhotoId] = useState<number | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  const photoLibrary = usePhotoLibrary();
+  const { photos } = photoLibrary;
+
+  // -1 once the open photo is deleted or the library reloads without it
+  const activeIndex = activePhotoId === null ? -1 : photos.findIndex(p => p.id === activePhotoId);
+  const focusedPhotoId = activeIndex >= 0 ? activePhotoId : null;
+
+  const handlePhotoClick = useCallback((photo: PhotoData) => setActivePhotoId(photo.id), []);
+  const handlePhotoNavigate = useCallback((index: number) => setActivePhotoId(photos[index].id), [photos]);
+  const handlePhotoClose = useCallback(() => setActivePhotoId(null), []);
 
   // Unified Physics State Ref
   const physicsRef = useRef({
@@ -30,6 +155,46 @@ const App: React.FC = () => {
       zoomDelta: 0, // Added for Zoom physics
   });
 
+  // Fingertip pointer from the camera, read by the scene every frame
+  const gesturePointerRef = useRef<GesturePointer>({ active: false, x: 0, y: 0, pressed: false });
+  // Whole-hand landmarks, for effects that follow the hand
+  const trackedHandRef = useRef<TrackedHand>({ active: false, landmarks: [], open: false });
+
+  const [ornamentDetails, setOrnamentDetails] = useState<OrnamentDetails | null>(null);
+  const handleOrnamentClose = useCallback(() => setOrnamentDetails(null), []);
+
+  // Presents under the tree; one at a time can be unwrapped
+  const giftTags = useGiftTags();
+  const [openGift, setOpenGift] = useState<number | null>(null);
+  const handleGiftClose = useCallback(() => setOpenGift(null), []);
+
+  // Decorating: hand-placed ornaments and the palette item being dragged
+  const customOrnaments = useCustomOrnaments();
+  const [isDecorating, setIsDecorating] = useState(false);
+  const [placing, setPlacing] = useState<{ kind: CustomOrnamentKind; color: string } | null>(null);
+  const [selectedOrnamentId, setSelectedOrnamentId] = useState<string | null>(null);
+
+  const handlePalettePick = useCallback((kind: CustomOrnamentKind | null, color: string) => {
+      setPlacing(kind ? { kind, color } : null);
+  }, []);
+
+  const toggleDecorating = useCallback(() => {
+      setIsDecorating(d => !d);
+      setPlacing(null);
+      setSelectedOrnamentId(null);
+  }, []);
+
+  const decorEditor = useMemo<DecorEditor | null>(() => isDecorating ? {
+      placing,
+      selectedId: selectedOrnamentId,
+      onPlace: (kind, color, height, angle) => {
+          customOrnaments.add(kind, color, height, angle);
+          setPlacing(null);
+      },
+      onMove: customOrnaments.move,
+      onSelect: setSelectedOrnamentId,
+  } : null, [isDecorating, placing, selectedOrnamentId, customOrnaments.add, customOrnaments.move]);
+
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Mouse/Touch Drag Interaction
@@ -45,8 +210,31 @@ const App: React.FC = () => {
     }
   }, {
     target: containerRef,
+    // The photo modal turns the tree itself and handles its own swipes;
+    // while decorating, drags place and move ornaments instead
+    enabled: focusedPhotoId === null && !isDecorating,
   });
 
+  // Drag-and-drop photo upload onto the canvas
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDraggingFiles(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+      // Ignore leave events fired when moving between child elements
+      if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+      setIsDraggingFiles(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      const files = Array.from(e.dataTransfer.files);
+      photoLibrary.upload(files).catch(err => console.error("Failed to store photos:", err));
+  }, [photoLibrary.upload]);
+
   const toggleMode = useCallback(() => {
       setTreeState(prev => ({
           ...prev,
@@ -54,7 +242,17 @@ const App: React.FC = () => {
       }));
   }, []);
 
+  const formShape = useCallback((shape: ShapeTarget) => {
+      setTreeState(prev => ({ ...prev, shape, mode: TreeMode.SHAPE }));
+  }, []);
+
   // Handlers for AI Gesture Control
+  const gestureBindings = useGestureBindings();
+  const [showGestureSettings, setShowGestureSettings] = useState(false);
+  // Set until the scene has saved its next frame
+  const [screenshotPending, setScreenshotPending] = useState(false);
+  const handleScreenshotDone = useCallback(() => setScreenshotPending(false), []);
+
   const handleGestureModeChange = useCallback((mode: TreeMode) => {
       setTreeState(prev => {
           if (prev.mode === mode) return prev;
@@ -62,6 +260,36 @@ const App: React.FC = () => {
       });
   }, []);
 
+  const handleGestureAction = useCallback((action: GestureActionId) => {
+      switch (action) {
+          case 'formTree':
+              handleGestureModeChange(TreeMode.FORMED);
+              break;
+          case 'explodeTree':
+              handleGestureModeChange(TreeMode.CHAOS);
+              break;
+          case 'toggleMode':
+              toggleMode();
+              break;
+          case 'nextPhoto':
+              // Opens the first photo, then steps through the library
+              if (photos.length > 0) setActivePhotoId(photos[(activeIndex + 1) % photos.length].id);
+              break;
+          case 'toggleGoldDust':
+              setTreeState(prev => ({ ...prev, showGoldDust: !prev.showGoldDust }));
+              break;
+          case 'nextTheme':
+              setTreeState(prev => {
+                  const index = THEMES.findIndex(theme => theme.id === prev.theme);
+                  return { ...prev, theme: THEMES[(index + 1) % THEMES.length].id };
+              });
+              break;
+          case 'screenshot':
+              setScreenshotPending(true);
+              break;
+      }
+  }, [handleGestureModeChange, toggleMode, photos, activeIndex]);
+
   const handleGestureInteractionStart = useCallback(() => {
       physicsRef.current.isInteracting = true;
       physicsRef.current.velocity = 0; 
@@ -80,6 +308,14 @@ const App: React.FC = () => {
       physicsRef.current.velocity = finalDelta;
   }, []);
 
+  const handleGesturePointerMove = useCallback((pointer: GesturePointer) => {
+      gesturePointerRef.current = pointer;
+  }, []);
+
+  const handleGestureHandMove = useCallback((hand: TrackedHand) => {
+      trackedHandRef.current = hand;
+  }, []);
+
   const handleGestureZoomMove = useCallback((scaleDelta: number) => {
       // scaleDelta > 0: Hand getting BIGGER (Moving Closer to screen) -> We want Zoom IN.
       // scaleDelta < 0: Hand getting SMALLER (Moving Away from screen) -> We want Zoom OUT.
@@ -99,41 +335,125 @@ const App: React.FC = () => {
     <div 
         ref={containerRef}
         className="relative w-full h-screen bg-black overflow-hidden touch-none"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
     >
-      {/* Background */}
-      <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-[#0f2e1e] via-[#05140a] to-[#000000] -z-10" />
+      {/* Background: one layer per theme, cross-faded so switches blend with the scene */}
+      {THEMES.map(theme => (
+          <div
+            key={theme.id}
+            className="absolute inset-0 -z-10 transition-opacity duration-[1500ms]"
+            style={{
+                background: `radial-gradient(ellipse at center, ${theme.background.join(', ')})`,
+                opacity: theme.id === treeState.theme ? 1 : 0,
+            }}
+          />
+      ))}
 
       {/* 3D Scene */}
       <div className="absolute inset-0 z-0 cursor-grab active:cursor-grabbing">
         <Scene 
             treeState={treeState} 
+            treeConfig={treeConfig}
             physicsRef={physicsRef} 
-            onPhotoClick={setActivePhoto}
+            photos={photos}
+            focusedPhotoId={focusedPhotoId}
+            gesturePointer={gesturePointerRef}
+            trackedHand={trackedHandRef}
+            quality={quality}
+            onQualityStep={qualitySettings.mode === 'auto' ? handleQualityStep : undefined}
+            onPhotoClick={handlePhotoClick}
+            onOrnamentDetails={setOrnamentDetails}
+            customOrnaments={customOrnaments.ornaments}
+            decorEditor={decorEditor}
+            giftTags={giftTags.tags}
+            openGift={openGift}
+            onGiftOpen={setOpenGift}
+            customTopper={customTopper?.object ?? null}
+            onScreenshotDone={screenshotPending ? handleScreenshotDone : undefined}
         />
       </div>
 
+      {/* Tree Config (Top Left) */}
+      <TreeConfigPanel config={treeConfig} onChange={setTreeConfig} />
+
+      {/* Decorating Palette (Top Center) */}
+      <OrnamentPalette
+        isOpen={isDecorating}
+        onToggle={toggleDecorating}
+        placing={placing?.kind ?? null}
+        onPick={handlePalettePick}
+        count={customOrnaments.ornaments.length}
+        hasSelection={selectedOrnamentId !== null}
+        onRemoveSelected={() => {
+            if (selectedOrnamentId) customOrnaments.remove(selectedOrnamentId);
+            setSelectedOrnamentId(null);
+        }}
+        onClear={() => {
+            customOrnaments.clear();
+            setSelectedOrnamentId(null);
+        }}
+      />
+
+      {/* Photo Library (Top Right) */}
+      <PhotoManager library={photoLibrary} />
+
+      {/* Drop Target Highlight */}
+      {isDraggingFiles && (
+          <div className="absolute inset-4 z-40 pointer-events-none rounded-3xl border-2 border-dashed border-[#FFD700] bg-[#FFD700]/5 flex items-center justify-center">
+              <span className="text-[#FFD700] text-sm tracking-widest font-serif font-bold">DROP PHOTOS TO HANG THEM ON THE TREE</span>
+          </div>
+      )}
+
       {/* AI Gesture Control Overlay (Bottom Right) */}
       <GestureControl 
-         onModeChange={handleGestureModeChange}
+         bindings={gestureBindings.bindings}
+         timings={gestureBindings.timings}
+         onAction={handleGestureAction}
          onRotationMove={handleGestureRotationMove}
          onZoomMove={handleGestureZoomMove}
          onInteractionStart={handleGestureInteractionStart}
          onInteractionEnd={handleGestureInteractionEnd}
+         onPointerMove={handleGesturePointerMove}
+         onHandMove={handleGestureHandMove}
       />
 
+      {showGestureSettings && (
+          <GestureSettings gestures={gestureBindings} onClose={() => setShowGestureSettings(false)} />
+      )}
+
+      {/* Ornament Details (long-press) */}
+      {ornamentDetails && <OrnamentCard details={ornamentDetails} onClose={handleOrnamentClose} />}
+
+      {/* Unwrapped Gift */}
+      {openGift !== null && (
+          <GiftCard
+            index={openGift}
+            tag={giftTags.tags[openGift] ?? { name: '', message: '' }}
+            photos={photos}
+            onChange={(tag) => giftTags.update(openGift, tag)}
+            onClose={handleGiftClose}
+          />
+      )}
+
       {/* Control Panel - Positioned Bottom Left, Stacked above Camera */}
       <div className="absolute bottom-4 left-4 z-20">
          <div className="backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 px-6 py-4 rounded-2xl flex flex-col gap-4 items-start shadow-[0_0_50px_rgba(0,0,0,0.8)]">
             
             {/* Chaos Toggle */}
+            {/* While showing a shape it only leads back to the tree */}
             <button 
                 onClick={toggleMode}
-                className={`flex items-center gap-3 w-full transition-all hover:bg-white/5 p-2 rounded-lg ${treeState.mode === TreeMode.CHAOS ? 'text-red-500' : 'text-[#FFD700]'}`}
+                className={`flex items-center gap-3 w-full transition-all hover:bg-white/5 p-2 rounded-lg ${treeState.mode === TreeMode.CHAOS ? 'text-red-500' : treeState.mode === TreeMode.SHAPE ? 'text-[#e0e0e0]' : 'text-[#FFD700]'}`}
             >
                 <Zap size={20} className={treeState.mode === TreeMode.CHAOS ? "animate-pulse" : ""} fill={treeState.mode === TreeMode.CHAOS ? "currentColor" : "none"} />
-                <span className="text-[10px] tracking-widest font-serif font-bold">{treeState.mode === TreeMode.CHAOS ? 'EXPLODE' : 'FORM'}</span>
+                <span className="text-[10px] tracking-widest font-serif font-bold">{treeState.mode === TreeMode.CHAOS ? 'EXPLODE' : treeState.mode === TreeMode.SHAPE ? 'BACK TO TREE' : 'FORM'}</span>
             </button>
 
+            {/* Shape Morph */}
+            <ShapeControl shape={treeState.shape} isActive={treeState.mode === TreeMode.SHAPE} onForm={formShape} />
+
             <div className="w-full h-px bg-white/20" />
 
             {/* Slider */}
@@ -146,42 +466,188 @@ const App: React.FC = () => {
                     className="w-32 accent-[#FFD700] h-1"
                  />
              </div>
+
+            {/* String Lights */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">LIGHTS</span>
+                 <input 
+                    type="range" min="0" max="5" step="0.1" 
+                    value={treeState.lightIntensity}
+                    onChange={(e) => setTreeState({...treeState, lightIntensity: parseFloat(e.target.value)})}
+                    className="w-32 accent-[#FFD700] h-1"
+                 />
+                 <select
+                    value={treeState.lightPattern}
+                    onChange={(e) => setTreeState({...treeState, lightPattern: e.target.value as LightPatternId})}
+                    className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                 >
+                    {LIGHT_PATTERNS.map(pattern => (
+                        <option key={pattern.id} value={pattern.id} className="bg-black">{pattern.label.toUpperCase()}</option>
+                    ))}
+                 </select>
+                 <select
+                    value={treeState.lightDrape}
+                    onChange={(e) => setTreeState({...treeState, lightDrape: e.target.value as LightDrapeId})}
+                    className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                 >
+                    {LIGHT_DRAPES.map(drape => (
+                        <option key={drape.id} value={drape.id} className="bg-black">{drape.label.toUpperCase()}</option>
+                    ))}
+                 </select>
+             </div>
+
+            {/* Snow */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <button
+                    onClick={() => setTreeState({...treeState, showSnow: !treeState.showSnow})}
+                    className={`flex items-center gap-2 text-[10px] tracking-widest font-serif transition-colors ${treeState.showSnow ? 'text-[#FFD700]' : 'text-[#e0e0e0]'}`}
+                 >
+                    <Snowflake size={12} />
+                    SNOW {treeState.showSnow ? 'ON' : 'OFF'}
+                 </button>
+                 {treeState.showSnow && (
+                     <>
+                         <input 
+                            type="range" min="0" max="1" step="0.05" 
+                            value={treeState.snowIntensity}
+                            onChange={(e) => setTreeState({...treeState, snowIntensity: parseFloat(e.target.value)})}
+                            className="w-32 accent-[#FFD700] h-1"
+                            title="Intensity"
+                         />
+                         <div className="flex items-center gap-2 w-32">
+                             <span className="text-[9px] text-[#e0e0e0]/70 tracking-widest font-serif">WIND</span>
+                             <input 
+                                type="range" min="-1" max="1" step="0.05" 
+                                value={treeState.snowWind}
+                                onChange={(e) => setTreeState({...treeState, snowWind: parseFloat(e.target.value)})}
+                                className="w-full min-w-0 accent-[#FFD700] h-1"
+                             />
+                         </div>
+                         <label className="flex items-center gap-2 text-[9px] text-[#e0e0e0]/70 tracking-widest font-serif cursor-pointer">
+                             <input
+                                type="checkbox"
+                                checked={treeState.snowSparkle}
+                                onChange={(e) => setTreeState({...treeState, snowSparkle: e.target.checked})}
+                                className="accent-[#FFD700]"
+                             />
+                             SPARKLE ON BRANCHES
+                         </label>
+                     </>
+                 )}
+             </div>
+
+            {/* Seed */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">SEED</span>
+                 <div className="flex items-center gap-2 w-32">
+                     <input
+                        type="number" min="0" max={MAX_SEED} step="1"
+                        value={treeState.seed}
+                        onChange={(e) => {
+                            const seed = parseInt(e.target.value, 10);
+                            if (Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED) {
+                                setTreeState({...treeState, seed});
+                            }
+                        }}
+                        className="w-full min-w-0 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                     />
+                     <button
+                        onClick={() => setTreeState({...treeState, seed: randomSeed()})}
+                        className="text-[#FFD700] hover:scale-110 transition-transform"
+                        title="New random seed"
+                     >
+                        <Dices size={16} />
+                     </button>
+                 </div>
+             </div>
+
+            {/* Photo Layout */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">LAYOUT</span>
+                 <select
+                    value={treeState.photoLayout}
+                    onChange={(e) => setTreeState({...treeState, photoLayout: e.target.value as PhotoLayoutId})}
+                    className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                 >
+                    {PHOTO_LAYOUTS.map(layout => (
+                        <option key={layout.id} value={layout.id} className="bg-black">{layout.label.toUpperCase()}</option>
+                    ))}
+                 </select>
+             </div>
+
+            {/* Frame Style */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">FRAMES</span>
+                 <select
+                    value={treeState.frameStyle}
+                    onChange={(e) => setTreeState({...treeState, frameStyle: e.target.value as FrameStyle})}
+                    className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                 >
+                    {Object.values(FRAME_STYLES).map(style => (
+                        <option key={style.id} value={style.id} className="bg-black">{style.label.toUpperCase()}</option>
+                    ))}
+                 </select>
+             </div>
+
+            {/* Topper */}
+             <TopperControl
+                topper={treeState.topper}
+                customModel={customTopper}
+                onChange={(topper: TopperId) => setTreeState({...treeState, topper})}
+                onModel={(model) => {
+                    setCustomTopper(model);
+                    setTreeState(prev => ({...prev, topper: 'custom'}));
+                }}
+             />
+
+            {/* Theme */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">THEME</span>
+                 <select
+                    value={treeState.theme}
+                    onChange={(e) => setTreeState({...treeState, theme: e.target.value as ThemeId})}
+                    className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                 >
+                    {THEMES.map(theme => (
+                        <option key={theme.id} value={theme.id} className="bg-black">{theme.label.toUpperCase()}</option>
+                    ))}
+                 </select>
+             </div>
+
+            {/* Gesture Bindings */}
+             <button
+                onClick={() => setShowGestureSettings(open => !open)}
+                className={`flex items-center gap-2 text-[10px] tracking-widest font-serif transition-colors ${showGestureSettings ? 'text-[#FFD700]' : 'text-[#e0e0e0]'}`}
+             >
+                <Hand size={12} />
+                GESTURES
+             </button>
+
+            {/* Render Quality */}
+             <div className="flex flex-col items-start gap-2 w-full">
+                 <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">QUALITY</span>
+                 <select
+                    value={qualitySettings.mode}
+                    onChange={(e) => setQualitySettings({...qualitySettings, mode: e.target.value as QualitySettings['mode']})}
+                    className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                 >
+                    <option value="auto" className="bg-black">AUTO ({getQualityTier(qualitySettings.autoTier).label.toUpperCase()})</option>
+                    {QUALITY_TIERS.map(tier => (
+                        <option key={tier.id} value={tier.id} className="bg-black">{tier.label.toUpperCase()}</option>
+                    ))}
+                 </select>
+             </div>
          </div>
       </div>
 
       {/* Photo Modal Overlay */}
-      {activePhoto && (
-          <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-300" onClick={() => setActivePhoto(null)}>
-              <div 
-                className="relative bg-white p-4 max-w-sm w-full shadow-2xl rotate-1 transform transition-transform"
-                onClick={(e) => e.stopPropagation()} 
-              >
-                  <div className="aspect-[4/5] w-full bg-gray-200 mb-4 overflow-hidden relative flex items-center justify-center">
-                      {activePhoto.url && !imgError ? (
-                          <img 
-                            src={activePhoto.url} 
-                            alt="Memory" 
-                            className="w-full h-full object-cover"
-                            onError={() => setImgError(true)}
-                          />
-                      ) : (
-                          <>
-                            <div className="absolute inset-0" style={{ backgroundColor: activePhoto.color }} />
-                            <div className="absolute inset-0 flex items-center justify-center opacity-20">
-                                <ImageIcon size={64} />
-                            </div>
-                          </>
-                      )}
-                  </div>
-                  
-                  <button 
-                    onClick={() => setActivePhoto(null)}
-                    className="absolute -top-4 -right-4 bg-black text-[#FFD700] rounded-full p-2 border border-[#FFD700] hover:scale-110 transition-transform"
-                  >
-                      <X size={20} />
-                  </button>
-              </div>
-          </div>
+      {focusedPhotoId !== null && (
+          <PhotoModal
+            photos={photos}
+            activeIndex={activeIndex}
+            onNavigate={handlePhotoNavigate}
+            onClose={handlePhotoClose}
+          />
       )}
     </div>
   );
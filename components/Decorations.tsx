@@ -3,25 +3,66 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Float, Sparkles } from '@react-three/drei';
 import * as THREE from 'three';
-import { TreeMode } from '../types';
+import { TreeMode, TopperId } from '../types';
+import { createStream } from '../utils/random';
+import { TOPPERS } from './Toppers';
+import { EffectQueue, emitEffect } from '../utils/particleEffects';
 
 interface DecorationsProps {
   mode: TreeMode;
+  seed: number;
+  height: number; // Y of the star when FORMED
+  color: THREE.Color; // Live theme color, copied every frame
+  topper: TopperId;
+  customModel: THREE.Object3D | null; // Imported topper, already centered and scaled
+  effects: EffectQueue;
 }
 
-const Decorations: React.FC<DecorationsProps> = ({ mode }) => {
+// Close enough to the tip to count as arrived, and set off the fireworks
+const ARRIVAL_DISTANCE = 0.3;
+
+const Decorations: React.FC<DecorationsProps> = ({ mode, seed, height, color, topper, customModel, effects }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+  // Set once the star has reached the tip; cleared when it leaves FORMED
+  const arrived = useRef(false);
+  const worldPos = useMemo(() => new THREE.Vector3(), []);
+  // Shared by every built-in topper so they all glow in the theme's star color
+  const material = useMemo(() => new THREE.MeshStandardMaterial({
+    color: '#FFD700',
+    emissive: '#FFD700',
+    emissiveIntensity: 2,
+    toneMapped: false,
+    roughness: 0.1,
+    metalness: 1,
+  }), []);
   
   // Chaos position for star
-  const chaosPos = useMemo(() => new THREE.Vector3((Math.random()-0.5)*10, 10 + Math.random()*5, (Math.random()-0.5)*10), []);
-  // Target position adjusted for new tree height (Height 14, Offset 7 => Top is 7, Star at 7.8)
-  const targetPos = useMemo(() => new THREE.Vector3(0, 7.8, 0), []);
+  const chaosPos = useMemo(() => {
+    const random = createStream(seed, 'star');
+    return new THREE.Vector3((random()-0.5)*10, 10 + random()*5, (random()-0.5)*10);
+  }, [seed]);
+  // Sits just above the tip of the foliage
+  const targetPos = useMemo(() => new THREE.Vector3(0, height, 0), [height]);
 
   useFrame((state, delta) => {
+      material.color.copy(color);
+      material.emissive.copy(color);
+      lightRef.current?.color.copy(color);
+
       if (groupRef.current) {
           const target = mode === TreeMode.FORMED ? targetPos : chaosPos;
           const speed = mode === TreeMode.FORMED ? 2 : 0.5; // Fast reform, slow drift
           groupRef.current.position.lerp(target, delta * speed);
+
+          if (mode !== TreeMode.FORMED) {
+              arrived.current = false;
+          } else if (!arrived.current && groupRef.current.position.distanceTo(targetPos) < ARRIVAL_DISTANCE) {
+              arrived.current = true;
+              groupRef.current.getWorldPosition(worldPos);
+              emitEffect(effects, { preset: 'burst', position: worldPos });
+              emitEffect(effects, { preset: 'ring', position: worldPos });
+          }
           
           // Rotate if chaos
           if (mode === TreeMode.CHAOS) {
@@ -29,28 +70,23 @@ const Decorations: React.FC<DecorationsProps> = ({ mode }) => {
               groupRef.current.rotation.x += delta * 0.5;
           } else {
               // Return to upright roughly
-              groupRef.current.rotation.z = THREE.MathUtils.lerp(groupRef.current.rotation.z, Math.PI/4, delta);
+              groupRef.current.rotation.z = THREE.MathUtils.lerp(groupRef.current.rotation.z, 0, delta);
               groupRef.current.rotation.x = THREE.MathUtils.lerp(groupRef.current.rotation.x, 0, delta);
           }
       }
   });
 
+  // A custom pick without a loaded model shows the original star
+  const { Body } = TOPPERS[topper === 'custom' ? 'grandStar' : topper];
+
   return (
     <group ref={groupRef}>
-      {/* The Grand Star */}
+      {/* The Topper */}
       <Float speed={2} rotationIntensity={0.2} floatIntensity={0.2} enabled={mode === TreeMode.FORMED}>
-        <mesh rotation={[0, 0, Math.PI / 4]}>
-          <octahedronGeometry args={[0.8, 0]} />
-          <meshStandardMaterial 
-            color="#FFD700" 
-            emissive="#FFD700" 
-            emissiveIntensity={2} 
-            toneMapped={false} 
-            roughness={0.1}
-            metalness={1}
-          />
-        </mesh>
-        <pointLight intensity={3} color="#FFD700" distance={5} />
+        {topper === 'custom' && customModel
+          ? <primitive object={customModel} />
+          : <Body material={material} />}
+        <pointLight ref={lightRef} intensity={3} color="#FFD700" distance={5} />
         <Sparkles count={30} scale={2} size={6} speed={0.4} opacity={1} color="#FFF" />
       </Float>
     </group>
@@ -0,0 +1,137 @@
+import React from 'react';
+import { FrameStyle } from '../types';
+
+// Each frame style draws its own body around a photo area. The photo content
+// itself (still, clip or loading placeholder) is rendered by PhotoFrame at the
+// placement given here, so every style gets the same loading and video
+// behaviour. Bodies are centered on the origin and face +Z, which keeps the
+// rail hanger, hover scale and click handling identical across styles.
+
+export type PhotoShape = 'square' | 'circle';
+
+export interface FrameStyleDef {
+  id: FrameStyle;
+  label: string;
+  photo: {
+    position: [number, number, number];
+    size: number; // Edge length, or diameter for circles
+    shape: PhotoShape;
+  };
+  Body: React.FC<{ frameColor?: string }>;
+}
+
+// --- BODIES ---
+
+const PolaroidBody: React.FC<{ frameColor?: string }> = ({ frameColor }) => (
+  <>
+    <mesh castShadow receiveShadow>
+      <boxGeometry args={[1.5, 1.875, 0.03]} />
+      <meshStandardMaterial color={frameColor ?? "#FAFAFA"} roughness={0.5} />
+    </mesh>
+    {/* Back Plate */}
+    <mesh position={[0, 0, -0.016]}>
+      <planeGeometry args={[1.5, 1.875]} />
+      <meshStandardMaterial color="#DDDDDD" roughness={0.8} />
+    </mesh>
+  </>
+);
+
+// Moulded gold frame: a backing board, four bevelled rails and rosettes on the corners
+const BaroqueBody: React.FC<{ frameColor?: string }> = ({ frameColor }) => {
+  const gold = frameColor ?? "#D4AF37";
+  const outer = 1.7;
+  const rail = 0.22;
+  const offset = (outer - rail) / 2;
+  const corners: [number, number][] = [[-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+  return (
+    <>
+      <mesh castShadow receiveShadow position={[0, 0, -0.01]}>
+        <boxGeometry args={[outer, outer, 0.04]} />
+        <meshStandardMaterial color="#2a1a0a" roughness={0.9} />
+      </mesh>
+      {[0, 1].map(axis => [-1, 1].map(side => (
+        <mesh
+          key={`${axis}${side}`}
+          castShadow
+          position={axis === 0 ? [0, side * offset, 0.03] : [side * offset, 0, 0.03]}
+          rotation={[0, 0, axis === 0 ? Math.PI / 2 : 0]}
+        >
+          <cylinderGeometry args={[rail / 2, rail / 2, outer, 6, 1]} />
+          <meshStandardMaterial color={gold} metalness={1} roughness={0.25} envMapIntensity={2} />
+        </mesh>
+      )))}
+      {corners.map(([x, y]) => (
+        <mesh key={`${x}${y}`} position={[x * offset, y * offset, 0.08]} castShadow>
+          <icosahedronGeometry args={[0.13, 0]} />
+          <meshStandardMaterial color={gold} metalness={1} roughness={0.15} envMapIntensity={2} />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+// Clear glass ball with a gold cap; the photo floats inside as a disc
+const BaubleBody: React.FC<{ frameColor?: string }> = ({ frameColor }) => (
+  <>
+    <mesh castShadow>
+      <sphereGeometry args={[0.85, 32, 32]} />
+      <meshPhysicalMaterial
+        color={frameColor ?? "#ffffff"}
+        roughness={0}
+        metalness={0}
+        clearcoat={1}
+        transparent
+        opacity={0.25}
+        depthWrite={false}
+        envMapIntensity={3}
+      />
+    </mesh>
+    <mesh position={[0, 0.88, 0]}>
+      <cylinderGeometry args={[0.14, 0.16, 0.14, 16]} />
+      <meshStandardMaterial color="#FFD700" metalness={1} roughness={0.2} />
+    </mesh>
+    {/* Back of the disc, so it reads as a print from behind */}
+    <mesh position={[0, 0, -0.005]} rotation={[0, Math.PI, 0]}>
+      <circleGeometry args={[0.6, 48]} />
+      <meshStandardMaterial color="#DDDDDD" roughness={0.8} />
+    </mesh>
+  </>
+);
+
+// Borderless print on a thin backing
+const CardBody: React.FC<{ frameColor?: string }> = ({ frameColor }) => (
+  <mesh castShadow receiveShadow>
+    <boxGeometry args={[1.5, 1.5, 0.012]} />
+    <meshStandardMaterial color={frameColor ?? "#1a1a1a"} roughness={0.6} />
+  </mesh>
+);
+
+// --- REGISTRY ---
+
+export const FRAME_STYLES: Record<FrameStyle, FrameStyleDef> = {
+  [FrameStyle.POLAROID]: {
+    id: FrameStyle.POLAROID,
+    label: 'Polaroid',
+    photo: { position: [0, 0.15, 0.017], size: 1.275, shape: 'square' },
+    Body: PolaroidBody,
+  },
+  [FrameStyle.BAROQUE]: {
+    id: FrameStyle.BAROQUE,
+    label: 'Baroque',
+    photo: { position: [0, 0, 0.012], size: 1.3, shape: 'square' },
+    Body: BaroqueBody,
+  },
+  [FrameStyle.BAUBLE]: {
+    id: FrameStyle.BAUBLE,
+    label: 'Bauble',
+    photo: { position: [0, 0, 0], size: 1.2, shape: 'circle' },
+    Body: BaubleBody,
+  },
+  [FrameStyle.CARD]: {
+    id: FrameStyle.CARD,
+    label: 'Card',
+    photo: { position: [0, 0, 0.007], size: 1.5, shape: 'square' },
+    Body: CardBody,
+  },
+};
@@ -0,0 +1,76 @@
+import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeMode } from '../types';
+import { createStream } from '../utils/random';
+
+interface FrostSparkleProps {
+  mode: TreeMode;
+  seed: number;
+  cover: React.MutableRefObject<number>; // Settled snow from Snowfall, 0..1
+  treeHeight: number;
+  baseRadius: number;
+}
+
+const SPARKLE_COUNT = 500;
+
+// Glints of settled snow on the foliage. More appear as the snow builds up,
+// and they only show while the tree is formed.
+const FrostSparkle: React.FC<FrostSparkleProps> = ({ mode, seed, cover, treeHeight, baseRadius }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const color = useMemo(() => new THREE.Color(), []);
+
+  const sparkles = useMemo(() => {
+    const random = createStream(seed, 'frost');
+    return Array.from({ length: SPARKLE_COUNT }, () => {
+      // Upper faces of the branches catch the snow, so favour the outer surface
+      const h = Math.pow(random(), 1.3) * 0.92;
+      const angle = random() * Math.PI * 2;
+      const r = (baseRadius * (1 - h) + 0.2) * (0.85 + random() * 0.15);
+      return {
+        position: new THREE.Vector3(Math.cos(angle) * r, h * treeHeight - treeHeight / 2 + 0.05, Math.sin(angle) * r),
+        rate: 2 + random() * 4,
+        phase: random() * Math.PI * 2,
+      };
+    });
+  }, [seed, treeHeight, baseRadius]);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dummy = new THREE.Object3D();
+    sparkles.forEach((s, i) => {
+      dummy.position.copy(s.position);
+      dummy.rotation.set(s.phase, s.phase * 2, 0);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+      mesh.setColorAt(i, color.setScalar(0));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [sparkles, color]);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.visible = mode === TreeMode.FORMED && cover.current > 0.01;
+    if (!mesh.visible) return;
+    mesh.count = Math.round(SPARKLE_COUNT * cover.current);
+
+    const t = state.clock.elapsedTime;
+    for (let i = 0; i < mesh.count; i++) {
+      const s = sparkles[i];
+      const glint = Math.pow(0.5 + 0.5 * Math.sin(t * s.rate + s.phase), 6);
+      mesh.setColorAt(i, color.setScalar(0.5 + glint * 2.5));
+    }
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, SPARKLE_COUNT]} frustumCulled={false}>
+      <octahedronGeometry args={[0.035, 0]} />
+      <meshBasicMaterial color="#eaf4ff" toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+export default FrostSparkle;
@@ -1,25 +1,48 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { FilesetResolver, GestureRecognizer, DrawingUtils } from '@mediapipe/tasks-vision';
-import { TreeMode } from '../types';
+import { GesturePointer, TrackedHand, GestureBinding, GestureActionId, GestureId, GestureTimings } from '../types';
 import { Camera } from 'lucide-react';
+import { getGesture, getGestureAction } from '../utils/gestureBindings';
+import { createGestureMachine, stepGestureMachine } from '../utils/gestureMachine';
 
 interface GestureControlProps {
-  onModeChange: (mode: TreeMode) => void;
+  bindings: GestureBinding[]; // Which poses trigger which actions
+  timings: GestureTimings; // How long a pose must be held, and the cooldown after a mode change
+  onAction: (action: GestureActionId) => void;
   onRotationMove: (deltaX: number) => void;
   onZoomMove: (deltaScale: number) => void;
   onInteractionStart: () => void;
   onInteractionEnd: () => void;
+  onPointerMove: (pointer: GesturePointer) => void; // Every tracked frame, and once when the hand is lost
+  onHandMove: (hand: TrackedHand) => void; // Same timing as onPointerMove
 }
 
+// The hand rarely reaches the edge of the camera frame, so the pointer moves
+// further than the fingertip does
+const POINTER_GAIN = 1.5;
+// Thumb and index tips closer than this (relative to hand size) count as a pinch
+const PINCH_RATIO = 0.35;
+// The hand that points and poses when two are in view. MediaPipe labels
+// handedness as if the image were mirrored; the raw webcam frame isn't, so
+// 'Left' is the user's right hand.
+const PRIMARY_HAND = 'Left';
+// Two-hand control: the gap between the hands changes far more than one hand's
+// size does, and a twist is measured in radians, so both are scaled down to
+// the one-hand deltas App expects
+const SPREAD_ZOOM_GAIN = 0.5;
+const TWIST_ROTATION_GAIN = 0.25;
+// Preview canvas pixels
+const HOLD_RING_RADIUS = 28;
+
 // Geometric helper to calculate distance between two landmarks
 const getDist = (p1: any, p2: any) => {
   return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
 };
 
-// Heuristic check: Is the hand physically open? 
-// Updated to be more permissive for Side Views and Zooming angles
-const isHandExtended = (landmarks: any[]) => {
+// Heuristic score: how physically open is the hand? The fraction of fingers extended.
+// Permissive for side views and zooming angles.
+const handOpenness = (landmarks: any[]) => {
   const wrist = landmarks[0];
   const tips = [8, 12, 16, 20]; // Index, Middle, Ring, Pinky
   const pips = [6, 10, 14, 18];
@@ -39,14 +62,11 @@ const isHandExtended = (landmarks: any[]) => {
     }
   }
   
-  // RELAXED COUNT:
-  // Only require 2 fingers (e.g. Index & Middle) to be extended.
-  // Helps when Ring/Pinky are hidden in side view.
-  return extendedCount >= 2;
+  return extendedCount / 4;
 };
 
-// Heuristic check: Is it a fist?
-const isHandClosed = (landmarks: any[]) => {
+// Heuristic score: how much of a fist is it? The fraction of fingers curled.
+const handClosure = (landmarks: any[]) => {
     const wrist = landmarks[0];
     const tips = [8, 12, 16, 20];
     const pips = [6, 10, 14, 18];
@@ -59,16 +79,23 @@ const isHandClosed = (landmarks: any[]) => {
         // Tip must be closer to wrist than PIP (Standard geometric definition of curled)
         if (dTip < dPip) curledCount++; 
     }
-    // Fist requires more fingers to be curled to avoid false positives during transition
-    return curledCount >= 3;
+    return curledCount / 4;
 }
 
+// Two of four fingers out reads as an open hand for hand-following effects.
+// Helps when Ring/Pinky are hidden in side view.
+const OPEN_HAND = 0.5;
+
 const GestureControl: React.FC<GestureControlProps> = ({ 
-    onModeChange, 
+    bindings,
+    timings,
+    onAction, 
     onRotationMove, 
     onZoomMove,
     onInteractionStart, 
-    onInteractionEnd 
+    onInteractionEnd,
+    onPointerMove,
+    onHandMove
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -79,11 +106,25 @@ const GestureControl: React.FC<GestureControlProps> = ({
   
   const lastWristX = useRef<number | null>(null);
   const lastHandSize = useRef<number | null>(null);
+  // Two-hand scheme: distance and angle from the primary hand to the other one
+  const lastSpread = useRef<number | null>(null);
+  const lastTwist = useRef<number | null>(null);
+  const wasTwoHanded = useRef<boolean>(false);
   
   const smoothedRotDelta = useRef<number>(0);
   const smoothedZoomDelta = useRef<number>(0);
   
   const wasTracking = useRef<boolean>(false);
+  // Debounces poses into actions
+  const gestureMachine = useRef(createGestureMachine());
+
+  // The prediction loop outlives renders; read the latest props through refs
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const timingsRef = useRef(timings);
+  timingsRef.current = timings;
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
 
   useEffect(() => {
     let recognizer: GestureRecognizer | null = null;
@@ -104,7 +145,7 @@ const GestureControl: React.FC<GestureControlProps> = ({
             delegate: "GPU"
           },
           runningMode: "VIDEO",
-          numHands: 1
+          numHands: 2
         });
 
         if (!isActive) {
@@ -183,7 +224,13 @@ const GestureControl: React.FC<GestureControlProps> = ({
 
     if (results.landmarks && results.landmarks.length > 0) {
       const drawingUtils = new DrawingUtils(ctx);
-      const landmarks = results.landmarks[0];
+      // Roles: the primary hand points, poses and steers alone; a second hand
+      // switches rotate and zoom over to the two-hand scheme
+      const found = results.handedness.findIndex(categories => categories[0]?.categoryName === PRIMARY_HAND);
+      const primary = results.landmarks.length > 1 && found >= 0 ? found : 0;
+      const secondary = results.landmarks.length > 1 ? 1 - primary : -1;
+      const landmarks = results.landmarks[primary];
+      const other = secondary >= 0 ? results.landmarks[secondary] : null;
       const wrist = landmarks[0];
       const middleMCP = landmarks[9];
 
@@ -200,7 +247,7 @@ const GestureControl: React.FC<GestureControlProps> = ({
           lastHandSize.current = handSize;
       }
 
-      // Draw Hand
+      // Draw Hands, the second one fainter
       drawingUtils.drawConnectors(landmarks, GestureRecognizer.HAND_CONNECTIONS, {
         color: "#FFD700",
         lineWidth: 3
@@ -210,21 +257,107 @@ const GestureControl: React.FC<GestureControlProps> = ({
         lineWidth: 2,
         radius: 3
       });
+      if (other) {
+        drawingUtils.drawConnectors(other, GestureRecognizer.HAND_CONNECTIONS, {
+          color: "rgba(255, 215, 0, 0.5)",
+          lineWidth: 2
+        });
+      }
 
       // --- GESTURE LOGIC ---
       let detectedAction = "";
       
-      const closed = isHandClosed(landmarks);
-      const open = isHandExtended(landmarks);
-
-      // PRIORITY: FIST (GATHER) vs OPEN (EXPLODE)
-      // Logic runs every frame to allow continuous state enforcement
-      if (closed && !open) {
-         onModeChange(TreeMode.FORMED);
-         detectedAction = "FIST (GATHER)";
-      } else if (open) {
-         onModeChange(TreeMode.CHAOS);
-         detectedAction = "OPEN (EXPLODE)";
+      const openness = handOpenness(landmarks);
+      const scores: Partial<Record<GestureId, number>> = {
+        fist: handClosure(landmarks),
+        openHand: openness,
+      };
+      (results.gestures?.[primary] ?? []).forEach(category => {
+        scores[category.categoryName as GestureId] = category.score;
+      });
+
+      // Poses are ignored while both hands are up, so opening them to zoom
+      // doesn't explode the tree
+      const step = stepGestureMachine(gestureMachine.current, bindingsRef.current, other ? {} : scores, nowInMs, timingsRef.current);
+      if (step.fired) onActionRef.current(step.fired.action);
+      const held = gestureMachine.current.binding;
+      if (held) {
+        detectedAction = `${getGesture(held.gesture).label} (${getGestureAction(held.action).label})`.toUpperCase();
+        // Hold-to-confirm ring around the palm, filling until the action fires
+        const cx = middleMCP.x * canvas.width;
+        const cy = middleMCP.y * canvas.height;
+        ctx.lineWidth = 5;
+        ctx.strokeStyle = "rgba(255, 215, 0, 0.25)";
+        ctx.beginPath();
+        ctx.arc(cx, cy, HOLD_RING_RADIUS, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.strokeStyle = "#FFD700";
+        ctx.beginPath();
+        ctx.arc(cx, cy, HOLD_RING_RADIUS, -Math.PI / 2, -Math.PI / 2 + step.progress * Math.PI * 2);
+        ctx.stroke();
+      }
+
+      // --- POINTER (INDEX FINGERTIP) ---
+      // Mirrored like the preview, so moving your hand right moves the pointer right
+      const tip = landmarks[8];
+      const clampUnit = (v: number) => Math.max(-1, Math.min(1, v));
+      const pinched = getDist(landmarks[4], tip) < handSize * PINCH_RATIO;
+      onPointerMove({
+        active: true,
+        x: clampUnit((0.5 - tip.x) * 2 * POINTER_GAIN),
+        y: clampUnit((0.5 - tip.y) * 2 * POINTER_GAIN),
+        pressed: pinched,
+      });
+      if (pinched && !detectedAction) detectedAction = "PINCH (SELECT)";
+
+      // --- WHOLE HAND ---
+      // Same mapping as the pointer, unclamped so the hand keeps its shape at the edges
+      onHandMove({
+        active: true,
+        landmarks: landmarks.map(l => ({ x: (0.5 - l.x) * 2 * POINTER_GAIN, y: (0.5 - l.y) * 2 * POINTER_GAIN, z: l.z })),
+        open: openness >= OPEN_HAND,
+      });
+
+      // --- CONTINUOUS CONTROL (ROTATE & ZOOM) ---
+      // These run *independently* of the Open/Fist state check above,
+      // allowing simultaneous State Change + Move + Zoom.
+
+      // Switching schemes restarts the new one's baselines, so nothing jumps;
+      // the smoothed deltas carry over and ease into the new motion
+      const twoHanded = other !== null;
+      if (twoHanded !== wasTwoHanded.current) {
+          lastWristX.current = null;
+          lastHandSize.current = null;
+          lastSpread.current = null;
+          lastTwist.current = null;
+          wasTwoHanded.current = twoHanded;
+      }
+
+      let rawRotDelta: number | null = null;
+      let rawZoomDelta: number | null = null;
+
+      if (other) {
+          // Two hands: pinch in the air. The gap between the palms zooms, like
+          // spreading two fingers on a touchscreen; twisting the pair turns the tree.
+          const a = landmarks[9];
+          const b = other[9];
+          const spread = getDist(a, b);
+          const twist = Math.atan2(b.y - a.y, b.x - a.x);
+          if (lastSpread.current !== null && lastTwist.current !== null) {
+              rawZoomDelta = (spread - lastSpread.current) * SPREAD_ZOOM_GAIN;
+              // Shortest way round, in case the hands cross over
+              const turn = Math.atan2(Math.sin(twist - lastTwist.current), Math.cos(twist - lastTwist.current));
+              rawRotDelta = turn * TWIST_ROTATION_GAIN;
+          }
+          lastSpread.current = spread;
+          lastTwist.current = twist;
+          detectedAction = "TWO HANDS (ZOOM / TURN)";
+      } else {
+          // One hand: sweep to rotate, move closer or further to zoom
+          if (lastWristX.current !== null) rawRotDelta = wrist.x - lastWristX.current;
+          if (lastHandSize.current !== null) rawZoomDelta = handSize - lastHandSize.current;
+          lastWristX.current = wrist.x;
+          lastHandSize.current = handSize;
       }
 
       if (detectedAction) {
@@ -234,16 +367,11 @@ const GestureControl: React.FC<GestureControlProps> = ({
          ctx.shadowBlur = 4;
          ctx.fillText(detectedAction, 10, 30);
       }
-
-      // --- CONTINUOUS CONTROL (ROTATE & ZOOM) ---
-      // These run *independently* of the Open/Fist state check above,
-      // allowing simultaneous State Change + Move + Zoom.
       
       // 1. Rotation (X-Axis)
-      if (lastWristX.current !== null) {
-          const rawDeltaX = wrist.x - lastWristX.current;
+      if (rawRotDelta !== null) {
           // Deadzone 0.005 to filter jitter
-          const effectiveDelta = Math.abs(rawDeltaX) > 0.005 ? rawDeltaX : 0;
+          const effectiveDelta = Math.abs(rawRotDelta) > 0.005 ? rawRotDelta : 0;
           
           // Smooth decay if stopped, Smooth attack if moving
           const alpha = effectiveDelta === 0 ? 0.9 : 0.1;
@@ -254,15 +382,13 @@ const GestureControl: React.FC<GestureControlProps> = ({
           }
       }
 
-      // 2. Zoom (Hand Scale / Proximity)
-      if (lastHandSize.current !== null) {
-          const deltaSize = handSize - lastHandSize.current;
+      // 2. Zoom (Hand Scale / Proximity, or the gap between two hands)
+      if (rawZoomDelta !== null) {
           // Deadzone 0.01 (1% change) to filter breathing/shaking
-          const effectiveDelta = Math.abs(deltaSize) > 0.01 ? deltaSize : 0;
+          const effectiveDelta = Math.abs(rawZoomDelta) > 0.01 ? rawZoomDelta : 0;
           
           // Heavy smoothing for Zoom to prevent nausea
-          // Alpha 0.95 means we keep 95% of previous velocity -> very floaty/smooth
-          const alpha = effectiveDelta === 0 ? 0.95 : 0.05; 
+          // Keep 90% of previous velocity -> very floaty/smooth
           smoothedZoomDelta.current = (smoothedZoomDelta.current * 0.9) + (effectiveDelta * 0.1);
           
           if (Math.abs(smoothedZoomDelta.current) > 0.0001) {
@@ -270,17 +396,20 @@ const GestureControl: React.FC<GestureControlProps> = ({
           }
       }
 
-      lastWristX.current = wrist.x;
-      lastHandSize.current = handSize;
-
     } else {
         // Hand lost
         if (wasTracking.current) {
             onInteractionEnd();
+            onPointerMove({ active: false, x: 0, y: 0, pressed: false });
+            onHandMove({ active: false, landmarks: [], open: false });
             wasTracking.current = false;
         }
+        stepGestureMachine(gestureMachine.current, bindingsRef.current, {}, nowInMs, timingsRef.current);
         lastWristX.current = null;
         lastHandSize.current = null;
+        lastSpread.current = null;
+        lastTwist.current = null;
+        wasTwoHanded.current = false;
         smoothedRotDelta.current = 0;
         smoothedZoomDelta.current = 0;
     }
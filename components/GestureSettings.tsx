@@ -0,0 +1,88 @@
+import React from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { GestureActionId, GestureTimings } from '../types';
+import { GESTURES, GESTURE_ACTIONS, THRESHOLD_LIMITS } from '../utils/gestureBindings';
+import { GESTURE_TIMING_LIMITS } from '../utils/gestureMachine';
+import { GestureBindings } from '../hooks/useGestureBindings';
+
+interface GestureSettingsProps {
+  gestures: GestureBindings;
+  onClose: () => void;
+}
+
+const TIMING_FIELDS: { key: keyof GestureTimings; label: string; format: (value: number) => string }[] = [
+  { key: 'holdMs', label: 'Hold', format: value => `${value}ms` },
+  { key: 'cooldownMs', label: 'Cooldown', format: value => `${(value / 1000).toFixed(1)}s` },
+  { key: 'releaseMargin', label: 'Release', format: value => `-${Math.round(value * 100)}%` },
+];
+
+// Binding table for the camera controls, above the camera preview. Each pose
+// gets an action and how confident the recognizer must be before it fires;
+// the timings below apply to every pose.
+const GestureSettings: React.FC<GestureSettingsProps> = ({ gestures, onClose }) => {
+  const { bindings, timings, update, setTimings, reset } = gestures;
+
+  return (
+    <div className="absolute bottom-32 md:bottom-44 right-4 z-40 backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 px-4 py-3 rounded-2xl flex flex-col gap-3 shadow-[0_0_50px_rgba(0,0,0,0.8)]">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-[10px] text-[#FFD700] tracking-widest font-serif font-bold">GESTURES</span>
+        <div className="flex items-center gap-2">
+          <button onClick={reset} className="text-[#FFD700] hover:scale-110 transition-transform" title="Restore defaults">
+            <RotateCcw size={14} />
+          </button>
+          <button onClick={onClose} className="text-[#FFD700] hover:scale-110 transition-transform" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {GESTURES.map(gesture => {
+        const binding = bindings.find(b => b.gesture === gesture.id);
+        if (!binding) return null;
+        return (
+          <div key={gesture.id} className="flex items-center gap-2">
+            <span className="w-24 text-[9px] text-[#e0e0e0] tracking-widest font-serif">{gesture.label.toUpperCase()}</span>
+            <select
+              value={binding.action}
+              onChange={(e) => update(gesture.id, { action: e.target.value as GestureActionId })}
+              className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+            >
+              {GESTURE_ACTIONS.map(action => (
+                <option key={action.id} value={action.id} className="bg-black">{action.label.toUpperCase()}</option>
+              ))}
+            </select>
+            <input
+              type="range" min={THRESHOLD_LIMITS.min} max={THRESHOLD_LIMITS.max} step={THRESHOLD_LIMITS.step}
+              value={binding.threshold}
+              onChange={(e) => update(gesture.id, { threshold: parseFloat(e.target.value) })}
+              disabled={binding.action === 'none'}
+              className="w-16 accent-[#FFD700] h-1 disabled:opacity-30"
+              title="Confidence needed"
+            />
+            <span className="w-7 text-right text-[9px] text-[#e0e0e0]/70 font-serif">{Math.round(binding.threshold * 100)}%</span>
+          </div>
+        );
+      })}
+
+      <div className="w-full h-px bg-white/20" />
+
+      {TIMING_FIELDS.map(({ key, label, format }) => {
+        const { min, max, step } = GESTURE_TIMING_LIMITS[key];
+        return (
+          <div key={key} className="flex items-center gap-2">
+            <span className="w-24 text-[9px] text-[#e0e0e0] tracking-widest font-serif">{label.toUpperCase()}</span>
+            <input
+              type="range" min={min} max={max} step={step}
+              value={timings[key]}
+              onChange={(e) => setTimings({ ...timings, [key]: parseFloat(e.target.value) })}
+              className="w-32 accent-[#FFD700] h-1"
+            />
+            <span className="w-[5.5rem] text-right text-[9px] text-[#e0e0e0]/70 font-serif">{format(timings[key])}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GestureSettings;
@@ -0,0 +1,253 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { GiftTag, TreeMode } from '../types';
+import { createStream, randomDirection } from '../utils/random';
+import { PALETTE_SLOTS } from '../utils/themes';
+import { stepSpring } from '../utils/ornamentPhysics';
+
+interface GiftBoxesProps {
+  count: number;
+  mode: TreeMode;
+  seed: number;
+  groundY: number; // Bottom of the trunk
+  baseRadius: number;
+  chaosRadius: number;
+  palette: THREE.Color[]; // Live theme gift colors, read every frame
+  tags: Record<number, GiftTag>;
+  openIndex: number | null; // Gift currently unwrapped
+  onOpen: (index: number) => void;
+}
+
+interface GiftLayout {
+  size: THREE.Vector3;
+  targetPos: THREE.Vector3;
+  rotationY: number;
+  chaosPos: THREE.Vector3;
+  paperSlot: number;
+  ribbonSlot: number;
+}
+
+// Presents sit on rings around the trunk; every fourth one is stacked on an
+// earlier gift if there's one big enough to take it.
+const arrangeGifts = (count: number, seed: number, groundY: number, baseRadius: number, chaosRadius: number): GiftLayout[] => {
+  const random = createStream(seed, 'gifts');
+  const rings = [2.2, 3.5, 4.8].filter(r => r < Math.max(2.3, baseRadius));
+  const capacity = rings.map(r => Math.floor((Math.PI * 2 * r) / 1.6));
+  const ringOffsets = rings.map(() => random() * Math.PI * 2);
+  const gifts: GiftLayout[] = [];
+  const stackable: number[] = [];
+  let slot = 0;
+
+  for (let i = 0; i < count; i++) {
+    const chaosPos = randomDirection(random).multiplyScalar(chaosRadius * (0.3 + random() * 0.5));
+    const paperSlot = Math.floor(random() * PALETTE_SLOTS);
+    const ribbonSlot = (paperSlot + 1 + Math.floor(random() * (PALETTE_SLOTS - 1))) % PALETTE_SLOTS;
+
+    if (i % 4 === 3 && stackable.length > 0) {
+      const base = gifts[stackable.shift()!];
+      const size = new THREE.Vector3(base.size.x * (0.55 + random() * 0.2), 0.4 + random() * 0.35, base.size.z * (0.55 + random() * 0.2));
+      const targetPos = base.targetPos.clone();
+      targetPos.y += base.size.y / 2 + 0.12 + size.y / 2;
+      gifts.push({ size, targetPos, rotationY: base.rotationY + (random() - 0.5) * 0.8, chaosPos, paperSlot, ribbonSlot });
+      continue;
+    }
+
+    // Next free slot, spilling onto outer rings; once the last ring is full, further out still
+    let ring = 0;
+    let inRing = slot;
+    while (ring < rings.length - 1 && inRing >= capacity[ring]) {
+      inRing -= capacity[ring];
+      ring++;
+    }
+    slot++;
+    const lap = Math.floor(inRing / capacity[ring]);
+    const angle = ringOffsets[ring] + ((inRing + lap * 0.5) / capacity[ring]) * Math.PI * 2 + (random() - 0.5) * 0.2;
+    const r = rings[ring] + lap * 1.3 + (random() - 0.5) * 0.3;
+    const size = new THREE.Vector3(0.8 + random() * 0.5, 0.6 + random() * 0.5, 0.8 + random() * 0.5);
+    gifts.push({
+      size,
+      targetPos: new THREE.Vector3(Math.cos(angle) * r, groundY + size.y / 2, Math.sin(angle) * r),
+      rotationY: -angle + (random() - 0.5) * 0.6,
+      chaosPos,
+      paperSlot,
+      ribbonSlot,
+    });
+    if (size.x > 0.95 && size.z > 0.95) stackable.push(i);
+  }
+  return gifts;
+};
+
+// --- ONE GIFT ---
+
+const WALL = 0.02;
+const RIBBON_WIDTH = 0.12;
+const LID_HEIGHT = 0.12;
+
+interface GiftProps {
+  gift: GiftLayout;
+  mode: TreeMode;
+  palette: THREE.Color[];
+  name: string;
+  isOpen: boolean;
+  onOpen: () => void;
+}
+
+// A box whose four walls fold out flat and whose lid pops off when opened
+const Gift: React.FC<GiftProps> = ({ gift, mode, palette, name, isOpen, onOpen }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const lidRef = useRef<THREE.Group>(null);
+  const wallRefs = useRef<(THREE.Group | null)[]>([]);
+  const glowRef = useRef<THREE.Mesh>(null);
+  const position = useRef(gift.chaosPos.clone());
+  const velocity = useRef(new THREE.Vector3());
+  const openness = useRef(0);
+  const paper = useMemo(() => new THREE.MeshStandardMaterial({ roughness: 0.45, metalness: 0.2 }), []);
+  const ribbon = useMemo(() => new THREE.MeshStandardMaterial({ roughness: 0.25, metalness: 0.7 }), []);
+
+  const { x: w, y: h, z: d } = gift.size;
+  // Pivot (bottom edge), fold axis and direction for the front, back, right and left walls
+  const walls: { pivot: [number, number, number]; axis: 'x' | 'z'; sign: 1 | -1; width: number }[] = [
+    { pivot: [0, -h / 2, d / 2], axis: 'x', sign: 1, width: w },
+    { pivot: [0, -h / 2, -d / 2], axis: 'x', sign: -1, width: w },
+    { pivot: [w / 2, -h / 2, 0], axis: 'z', sign: -1, width: d },
+    { pivot: [-w / 2, -h / 2, 0], axis: 'z', sign: 1, width: d },
+  ];
+
+  useFrame((state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    paper.color.copy(palette[gift.paperSlot]);
+    ribbon.color.copy(palette[gift.ribbonSlot]);
+
+    const isFormed = mode === TreeMode.FORMED;
+    stepSpring(position.current, velocity.current, isFormed ? gift.targetPos : gift.chaosPos, 4, delta);
+    group.position.copy(position.current);
+    if (isFormed) {
+      // Settle back square to the floor
+      group.rotation.x = THREE.MathUtils.lerp(group.rotation.x, 0, Math.min(1, delta * 4));
+      group.rotation.z = THREE.MathUtils.lerp(group.rotation.z, 0, Math.min(1, delta * 4));
+      group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, gift.rotationY, Math.min(1, delta * 4));
+    } else {
+      group.rotation.x += delta * 0.3;
+      group.rotation.z += delta * 0.2;
+    }
+
+    openness.current = THREE.MathUtils.lerp(openness.current, isOpen && isFormed ? 1 : 0, Math.min(1, delta * 3));
+    const o = openness.current;
+    const fold = (Math.PI / 2) * 0.97 * THREE.MathUtils.smoothstep(o, 0.25, 1);
+    walls.forEach((wall, i) => {
+      const ref = wallRefs.current[i];
+      if (!ref) return;
+      if (wall.axis === 'x') ref.rotation.x = wall.sign * fold;
+      else ref.rotation.z = wall.sign * fold;
+    });
+    if (lidRef.current) {
+      const lift = THREE.MathUtils.smoothstep(o, 0, 0.6);
+      lidRef.current.position.set(lift * w * 0.8, h / 2 + LID_HEIGHT / 2 + lift * 1.4, 0);
+      lidRef.current.rotation.set(0, lift * 1.5, -lift * 0.9);
+    }
+    if (glowRef.current) {
+      glowRef.current.visible = o > 0.05;
+      glowRef.current.scale.setScalar(o * (1 + Math.sin(state.clock.elapsedTime * 4) * 0.08));
+    }
+  });
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (mode !== TreeMode.FORMED) return;
+    e.stopPropagation();
+    onOpen();
+  };
+
+  return (
+    <group ref={groupRef} onClick={handleClick}>
+      {/* Floor of the box */}
+      <mesh position={[0, -h / 2 + WALL / 2, 0]} material={paper} receiveShadow>
+        <boxGeometry args={[w, WALL, d]} />
+      </mesh>
+
+      {walls.map((wall, i) => (
+        <group key={i} ref={el => { wallRefs.current[i] = el; }} position={wall.pivot}>
+          <group rotation={[0, wall.axis === 'x' ? 0 : Math.PI / 2, 0]}>
+            <mesh position={[0, h / 2, 0]} material={paper} castShadow>
+              <boxGeometry args={[wall.width, h, WALL]} />
+            </mesh>
+            {/* Ribbon running up the outside of the wall */}
+            <mesh position={[0, h / 2, (wall.axis === 'x' ? wall.sign : -wall.sign) * WALL]} material={ribbon}>
+              <boxGeometry args={[RIBBON_WIDTH, h, WALL]} />
+            </mesh>
+          </group>
+        </group>
+      ))}
+
+      {/* Whatever's inside, glowing once it's open */}
+      <mesh ref={glowRef} visible={false}>
+        <icosahedronGeometry args={[Math.min(w, d) * 0.25, 1]} />
+        <meshBasicMaterial color="#FFE9A8" toneMapped={false} />
+      </mesh>
+
+      <group ref={lidRef} position={[0, h / 2 + LID_HEIGHT / 2, 0]}>
+        <mesh material={paper} castShadow>
+          <boxGeometry args={[w + 0.06, LID_HEIGHT, d + 0.06]} />
+        </mesh>
+        <mesh material={ribbon}>
+          <boxGeometry args={[RIBBON_WIDTH, LID_HEIGHT + 0.01, d + 0.07]} />
+        </mesh>
+        <mesh material={ribbon}>
+          <boxGeometry args={[w + 0.07, LID_HEIGHT + 0.01, RIBBON_WIDTH]} />
+        </mesh>
+        {/* Bow: two loops and a knot */}
+        {[-1, 1].map(side => (
+          <mesh key={side} material={ribbon} position={[side * 0.1, LID_HEIGHT / 2 + 0.08, 0]} rotation={[0, 0, side * 0.6]}>
+            <torusGeometry args={[0.09, 0.025, 8, 20]} />
+          </mesh>
+        ))}
+        <mesh material={ribbon} position={[0, LID_HEIGHT / 2 + 0.03, 0]}>
+          <sphereGeometry args={[0.045, 10, 10]} />
+        </mesh>
+
+        {/* Name tag hanging off the front of the lid */}
+        {name && (
+          <group position={[w * 0.2, -0.14, d / 2 + 0.05]} rotation={[0.15, 0, -0.12]}>
+            <mesh>
+              <planeGeometry args={[0.5, 0.2]} />
+              <meshStandardMaterial color="#FFF8E7" roughness={0.8} side={THREE.DoubleSide} />
+            </mesh>
+            <Text position={[0, 0, 0.005]} fontSize={0.075} maxWidth={0.46} color="#3E2723" anchorX="center" anchorY="middle">
+              {name}
+            </Text>
+          </group>
+        )}
+      </group>
+    </group>
+  );
+};
+
+// --- ARRANGEMENT ---
+
+// Wrapped presents around the foot of the tree
+const GiftBoxes: React.FC<GiftBoxesProps> = ({ count, mode, seed, groundY, baseRadius, chaosRadius, palette, tags, openIndex, onOpen }) => {
+  const gifts = useMemo(
+    () => arrangeGifts(count, seed, groundY, baseRadius, chaosRadius),
+    [count, seed, groundY, baseRadius, chaosRadius]
+  );
+
+  return (
+    <group>
+      {gifts.map((gift, i) => (
+        <Gift
+          key={`${seed}:${i}`}
+          gift={gift}
+          mode={mode}
+          palette={palette}
+          name={tags[i]?.name ?? ''}
+          isOpen={openIndex === i}
+          onOpen={() => onOpen(i)}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default GiftBoxes;
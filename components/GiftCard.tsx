@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Gift } from 'lucide-react';
+import { GiftTag, PhotoData } from '../types';
+import { useThumbnail } from '../hooks/useThumbnail';
+
+interface GiftCardProps {
+  index: number;
+  tag: GiftTag;
+  photos: PhotoData[];
+  onChange: (tag: GiftTag) => void;
+  onClose: () => void;
+}
+
+const PICKER_THUMBNAIL_SIZE = 128;
+const REVEAL_PHOTO_SIZE = 512;
+// Wait for the box to fold open before showing what's inside
+const REVEAL_DELAY_MS = 700;
+
+const PhotoChoice: React.FC<{ photo: PhotoData; selected: boolean; onPick: () => void }> = ({ photo, selected, onPick }) => {
+  const url = useThumbnail(photo, PICKER_THUMBNAIL_SIZE);
+  return (
+    <button
+      onClick={onPick}
+      className={`shrink-0 w-10 h-10 rounded border overflow-hidden ${selected ? 'border-[#FFD700]' : 'border-white/20 opacity-70 hover:opacity-100'}`}
+      style={{ backgroundColor: photo.color }}
+    >
+      {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+    </button>
+  );
+};
+
+const RevealedPhoto: React.FC<{ photo: PhotoData }> = ({ photo }) => {
+  const url = useThumbnail(photo, REVEAL_PHOTO_SIZE);
+  return url
+    ? <img src={url} alt="" className="w-full max-h-48 object-contain rounded border border-white/20" />
+    : <div className="w-full h-32 rounded border border-white/20" style={{ backgroundColor: photo.color }} />;
+};
+
+// What's inside an unwrapped present: its tag, message and photo, all editable.
+// Escape or a press anywhere else wraps it back up.
+const GiftCard: React.FC<GiftCardProps> = ({ index, tag, photos, onChange, onClose }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [revealed, setRevealed] = useState(false);
+  const photo = tag.photoId !== undefined ? photos.find(p => p.id === tag.photoId) : undefined;
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setRevealed(true), REVEAL_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [index]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    const handlePointer = (e: PointerEvent) => {
+      if (!cardRef.current?.contains(e.target as Node)) onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('pointerdown', handlePointer);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('pointerdown', handlePointer);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={cardRef}
+      className={`fixed z-50 bottom-24 left-1/2 -translate-x-1/2 w-72 backdrop-blur-xl bg-black/70 border border-[#FFD700]/40 rounded-2xl p-4 flex flex-col gap-3 shadow-[0_0_30px_rgba(0,0,0,0.8)] transition-all duration-500 ${revealed ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}
+    >
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-[#FFD700] text-xs tracking-widest font-serif font-bold">
+          <Gift size={14} /> GIFT NO. {index + 1}
+        </span>
+        <button onClick={onClose} className="text-[#FFD700]/70 hover:text-[#FFD700]">
+          <X size={14} />
+        </button>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">TO</span>
+        <input
+          type="text"
+          value={tag.name}
+          maxLength={20}
+          placeholder="Name on the tag"
+          onChange={(e) => onChange({ ...tag, name: e.target.value })}
+          className="bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">MESSAGE</span>
+        <textarea
+          value={tag.message}
+          rows={3}
+          maxLength={280}
+          placeholder="Merry Christmas!"
+          onChange={(e) => onChange({ ...tag, message: e.target.value })}
+          className="bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[11px] text-[#e0e0e0] font-serif outline-none resize-none"
+        />
+      </label>
+
+      {photo && <RevealedPhoto photo={photo} />}
+
+      {photos.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">PHOTO INSIDE</span>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            <button
+              onClick={() => onChange({ ...tag, photoId: undefined })}
+              className={`shrink-0 w-10 h-10 rounded border text-[8px] text-[#e0e0e0] font-serif ${photo ? 'border-white/20 opacity-70 hover:opacity-100' : 'border-[#FFD700]'}`}
+            >
+              NONE
+            </button>
+            {photos.map(p => (
+              <PhotoChoice key={p.id} photo={p} selected={p.id === tag.photoId} onPick={() => onChange({ ...tag, photoId: p.id })} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GiftCard;
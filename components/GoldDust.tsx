@@ -1,32 +1,72 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
+import { TrackedHand } from '../types';
+import { createStream } from '../utils/random';
+import { createSceneHand, projectHand } from '../utils/handSpace';
 
-const GoldDust: React.FC = () => {
-  const count = 800;
+interface GoldDustProps {
+  seed: number;
+  count: number;
+  color: THREE.Color; // Live theme colors, copied every frame
+  emissive: THREE.Color;
+  hand: React.MutableRefObject<TrackedHand>; // Takes over from the mouse pointer while a hand is tracked
+}
+
+// Every Nth particle streams from the index fingertip instead of drifting
+const STREAM_EVERY = 6;
+// Dust within this distance of the palm is drawn into orbit around it
+const SWIRL_RADIUS = 7;
+const ORBIT_RADIUS = 2.2;
+const SWIRL_SPEED = 9;
+// Outward kick when the hand opens
+const BURST_STRENGTH = 18;
+
+const GoldDust: React.FC<GoldDustProps> = ({ seed, count, color, emissive, hand }) => {
   const mesh = useRef<THREE.InstancedMesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
   const { viewport } = useThree();
-  
+
   const dummy = useMemo(() => new THREE.Object3D(), []);
-  
+  const sceneHand = useMemo(() => createSceneHand(), []);
+  const wasOpen = useRef(false);
+  const rel = useMemo(() => new THREE.Vector3(), []);
+  const swirl = useMemo(() => new THREE.Vector3(), []);
+
   // Random positions and speeds
   const particles = useMemo(() => {
+    const random = createStream(seed, 'dust');
     const temp = [];
     for (let i = 0; i < count; i++) {
-      const t = Math.random() * 100;
-      const factor = 20 + Math.random() * 100;
+      const t = random() * 100;
+      const factor = 20 + random() * 100;
       // REDUCED SPEED: Previous was 0.01 + rand/200, now significantly slower
-      const speed = 0.002 + Math.random() / 500;
-      const xFactor = -20 + Math.random() * 40;
-      const yFactor = -20 + Math.random() * 40;
-      const zFactor = -20 + Math.random() * 40;
-      temp.push({ t, factor, speed, xFactor, yFactor, zFactor, mx: 0, my: 0 });
+      const speed = 0.002 + random() / 500;
+      const xFactor = -20 + random() * 40;
+      const yFactor = -20 + random() * 40;
+      const zFactor = -20 + random() * 40;
+      // Hand forces push an offset around the particle's drifting path; it eases back once the hand leaves
+      const offset = new THREE.Vector3();
+      const velocity = new THREE.Vector3();
+      const life = random();
+      temp.push({ t, factor, speed, xFactor, yFactor, zFactor, mx: 0, my: 0, offset, velocity, life });
     }
     return temp;
-  }, [count]);
+  }, [count, seed]);
 
   useFrame((state, delta) => {
     if (!mesh.current) return;
+    const dt = Math.min(delta, 0.1);
+
+    if (materialRef.current) {
+      materialRef.current.color.copy(color);
+      materialRef.current.emissive.copy(emissive);
+    }
+
+    const hasHand = projectHand(hand.current, state.camera, sceneHand);
+    // Burst on the frame the hand opens
+    const burst = hasHand && hand.current.open && !wasOpen.current;
+    wasOpen.current = hasHand && hand.current.open;
 
     // Get mouse/touch position in 3D space roughly (normalized -1 to 1 mapped to viewport)
     const targetX = (state.pointer.x * viewport.width) / 2;
@@ -34,31 +74,69 @@ const GoldDust: React.FC = () => {
 
     particles.forEach((particle, i) => {
       let { t, factor, speed, xFactor, yFactor, zFactor } = particle;
-      
+
       // Update time
       t = particle.t += speed / 2;
       const a = Math.cos(t) + Math.sin(t * 1) / 10;
       const b = Math.sin(t) + Math.cos(t * 2) / 10;
       const s = Math.cos(t);
 
+      // Fingertip stream: fly out along the pointing finger, fanning out as they go
+      if (hasHand && i % STREAM_EVERY === 0) {
+        particle.life = (particle.life + dt * (0.6 + (i % 7) * 0.05)) % 1;
+        const fan = particle.life * 0.8;
+        dummy.position.copy(sceneHand.indexTip)
+          .addScaledVector(sceneHand.pointing, particle.life * 5)
+          .add(rel.set(Math.sin(t * factor) * fan, Math.cos(t * factor * 1.3) * fan, Math.sin(t * factor * 0.7) * fan));
+        // Keep them from snapping when the hand goes away
+        particle.offset.copy(dummy.position).sub(rel.set(xFactor, yFactor, zFactor));
+        particle.velocity.set(0, 0, 0);
+        dummy.rotation.set(s * 5, s * 5, s * 5);
+        dummy.scale.setScalar(1.2 * (1 - particle.life));
+        dummy.updateMatrix();
+        mesh.current!.setMatrixAt(i, dummy.matrix);
+        return;
+      }
+
       // Interactive Attraction:
       let px = (particle.mx / 10) * a + xFactor + Math.cos((t / 10) * factor) + (Math.sin(t * 1) * factor) / 10;
       let py = (particle.my / 10) * b + yFactor + Math.sin((t / 10) * factor) + (Math.cos(t * 2) * factor) / 10;
       let pz = (particle.my / 10) * b + zFactor + Math.cos((t / 10) * factor) + (Math.sin(t * 3) * factor) / 10;
 
-      const dist = Math.sqrt(Math.pow(px - targetX, 2) + Math.pow(py - targetY, 2));
-      
-      // Subtle attraction logic
-      if (dist < 8) {
-         px += (targetX - px) * 0.02;
-         py += (targetY - py) * 0.02;
-         pz += (5 - pz) * 0.02; 
+      if (!hasHand) {
+        // Fallback: the mouse pointer
+        const dist = Math.sqrt(Math.pow(px - targetX, 2) + Math.pow(py - targetY, 2));
+
+        // Subtle attraction logic
+        if (dist < 8) {
+           px += (targetX - px) * 0.02;
+           py += (targetY - py) * 0.02;
+           pz += (5 - pz) * 0.02;
+        }
       }
 
-      dummy.position.set(px, py, pz);
+      const { offset, velocity } = particle;
+      if (hasHand) {
+        rel.set(px, py, pz).add(offset).sub(sceneHand.palm);
+        const dist = Math.max(0.001, rel.length());
+        if (dist < SWIRL_RADIUS) {
+          const falloff = 1 - dist / SWIRL_RADIUS;
+          // Around the view axis, and toward a ring at ORBIT_RADIUS
+          swirl.crossVectors(sceneHand.facing, rel).normalize().multiplyScalar(SWIRL_SPEED * falloff);
+          swirl.addScaledVector(rel, ((ORBIT_RADIUS - dist) / dist) * 4 * falloff);
+          velocity.addScaledVector(swirl, dt);
+        }
+        if (burst) velocity.addScaledVector(rel.normalize(), BURST_STRENGTH / (1 + dist * 0.3));
+      }
+      velocity.multiplyScalar(Math.exp(-dt * 1.5));
+      offset.addScaledVector(velocity, dt);
+      // Drift back onto the path; slower while a hand holds the dust
+      offset.multiplyScalar(Math.exp(-dt * (hasHand ? 0.2 : 0.6)));
+
+      dummy.position.set(px + offset.x, py + offset.y, pz + offset.z);
       dummy.rotation.set(s * 5, s * 5, s * 5);
       dummy.scale.set(s, s, s);
-      
+
       dummy.updateMatrix();
       mesh.current!.setMatrixAt(i, dummy.matrix);
     });
@@ -68,15 +146,16 @@ const GoldDust: React.FC = () => {
   return (
     <instancedMesh ref={mesh} args={[undefined, undefined, count]}>
       <dodecahedronGeometry args={[0.05, 0]} />
-      <meshStandardMaterial 
-        color="#FFD700" 
+      <meshStandardMaterial
+        ref={materialRef}
+        color="#FFD700"
         emissive="#FFA500"
         emissiveIntensity={0.5}
-        roughness={0} 
-        metalness={1} 
+        roughness={0}
+        metalness={1}
       />
     </instancedMesh>
   );
 };
 
-export default GoldDust;
\ No newline at end of file
+export default GoldDust;
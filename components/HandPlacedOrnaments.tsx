@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CustomOrnament, CustomOrnamentKind, TreeMode } from '../types';
+import { createStream } from '../utils/random';
+import { stepSpring } from '../utils/ornamentPhysics';
+import { isRecord } from '../utils/guards';
+
+// Edit-mode hooks supplied by App while decorating
+export interface DecorEditor {
+  placing: { kind: CustomOrnamentKind; color: string } | null; // Item picked from the palette
+  selectedId: string | null;
+  onPlace: (kind: CustomOrnamentKind, color: string, height: number, angle: number) => void;
+  onMove: (id: string, height: number, angle: number) => void;
+  onSelect: (id: string | null) => void;
+}
+
+interface HandPlacedOrnamentsProps {
+  ornaments: CustomOrnament[];
+  shapeTargets: THREE.Vector3[]; // SHAPE mode spot for each ornament, in order
+  mode: TreeMode;
+  seed: number;
+  treeHeight: number;
+  baseRadius: number;
+  chaosRadius: number;
+  editor: DecorEditor | null; // Null outside edit mode
+}
+
+// Where on the cone a pointer hit lands
+interface ConeSpot {
+  height: number;
+  angle: number;
+}
+
+// Just outside the foliage, which fills BASE_RADIUS * (1 - h) + 0.2
+const SURFACE_GAP = 0.35;
+
+// --- MODELS ---
+
+const BELL_GEOMETRY = new THREE.LatheGeometry([
+  new THREE.Vector2(0, 0.26),
+  new THREE.Vector2(0.07, 0.25),
+  new THREE.Vector2(0.11, 0.18),
+  new THREE.Vector2(0.13, 0.04),
+  new THREE.Vector2(0.17, -0.09),
+  new THREE.Vector2(0.25, -0.17),
+  new THREE.Vector2(0.26, -0.2),
+  new THREE.Vector2(0.22, -0.2),
+], 32);
+
+// A J-shaped cane cut into short pieces so the stripes alternate
+const CANE_SEGMENTS = (() => {
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i <= 8; i++) points.push(new THREE.Vector3(0, -0.4 + i * 0.065, 0));
+  for (let i = 1; i <= 10; i++) {
+    const a = Math.PI - (i / 10) * Math.PI;
+    points.push(new THREE.Vector3(0.13 + Math.cos(a) * 0.13, 0.12 + Math.sin(a) * 0.13, 0));
+  }
+  points.push(new THREE.Vector3(0.26, 0.06, 0));
+  const curve = new THREE.CatmullRomCurve3(points);
+  const count = 12;
+  return Array.from({ length: count }, (_, i) => {
+    const piece = Array.from({ length: 5 }, (_, j) => curve.getPointAt((i + j / 4) / count));
+    return new THREE.TubeGeometry(new THREE.CatmullRomCurve3(piece), 6, 0.045, 8, false);
+  });
+})();
+
+const OrnamentModel: React.FC<{ kind: CustomOrnamentKind; color: string; opacity?: number }> = ({ kind, color, opacity = 1 }) => {
+  const material = { transparent: opacity < 1, opacity, depthWrite: opacity === 1 };
+  const gold = <meshStandardMaterial color="#FFD700" metalness={1} roughness={0.2} {...material} />;
+
+  switch (kind) {
+    case 'ball':
+      return (
+        <>
+          <mesh castShadow>
+            <sphereGeometry args={[0.3, 32, 32]} />
+            <meshStandardMaterial color={color} metalness={0.9} roughness={0.1} envMapIntensity={3} {...material} />
+          </mesh>
+          <mesh position={[0, 0.32, 0]}>
+            <cylinderGeometry args={[0.07, 0.08, 0.08, 12]} />
+            {gold}
+          </mesh>
+        </>
+      );
+    case 'box':
+      return (
+        <>
+          <mesh castShadow>
+            <boxGeometry args={[0.45, 0.45, 0.45]} />
+            <meshStandardMaterial color={color} metalness={0.6} roughness={0.3} {...material} />
+          </mesh>
+          <mesh>
+            <boxGeometry args={[0.47, 0.47, 0.08]} />
+            {gold}
+          </mesh>
+          <mesh>
+            <boxGeometry args={[0.08, 0.47, 0.47]} />
+            {gold}
+          </mesh>
+        </>
+      );
+    case 'bell':
+      return (
+        <>
+          <mesh geometry={BELL_GEOMETRY} castShadow>
+            <meshStandardMaterial color={color} metalness={1} roughness={0.25} side={THREE.DoubleSide} {...material} />
+          </mesh>
+          <mesh position={[0, -0.22, 0]}>
+            <sphereGeometry args={[0.06, 12, 12]} />
+            {gold}
+          </mesh>
+        </>
+      );
+    case 'candyCane':
+      return (
+        <>
+          {CANE_SEGMENTS.map((geometry, i) => (
+            <mesh key={i} geometry={geometry} castShadow>
+              <meshStandardMaterial color={i % 2 === 0 ? color : '#FFFFFF'} roughness={0.35} {...material} />
+            </mesh>
+          ))}
+        </>
+      );
+  }
+};
+
+// --- PLACED ORNAMENT ---
+
+interface PlacedOrnamentProps {
+  ornament: CustomOrnament;
+  target: THREE.Vector3;
+  chaosPos: THREE.Vector3;
+  shapePos: THREE.Vector3;
+  mode: TreeMode;
+  selected: boolean;
+  onPointerDown?: (e: ThreeEvent<PointerEvent>) => void;
+}
+
+const PlacedOrnament: React.FC<PlacedOrnamentProps> = ({ ornament, target, chaosPos, shapePos, mode, selected, onPointerDown }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const position = useRef(chaosPos.clone());
+  const velocity = useRef(new THREE.Vector3());
+
+  useFrame((state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    const isFormed = mode === TreeMode.FORMED;
+    const isShape = mode === TreeMode.SHAPE;
+    // Joins the same transitions as the generated ornaments
+    stepSpring(position.current, velocity.current, isFormed ? target : isShape ? shapePos : chaosPos, 5, delta);
+    group.position.copy(position.current);
+    // Face out from the trunk, or to the front of a shape; tumble while scattered
+    if (isFormed) {
+      group.rotation.set(velocity.current.z * 0.04, Math.PI / 2 - Math.atan2(target.z, target.x), -velocity.current.x * 0.04);
+    } else if (isShape) {
+      group.rotation.set(velocity.current.z * 0.04, 0, -velocity.current.x * 0.04);
+    } else {
+      group.rotation.x += delta * 0.4;
+      group.rotation.y += delta * 0.6;
+    }
+  });
+
+  return (
+    <group ref={groupRef} onPointerDown={onPointerDown}>
+      <OrnamentModel kind={ornament.kind} color={ornament.color} />
+      {selected && (
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[0.42, 0.015, 8, 48]} />
+          <meshBasicMaterial color="#FFD700" toneMapped={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+// --- EDITOR + LIST ---
+
+// The default controls, as far as the drag needs them
+const canDisable = (controls: unknown): controls is { enabled: boolean } => {
+  return isRecord(controls) && typeof controls.enabled === 'boolean';
+};
+
+const HandPlacedOrnaments: React.FC<HandPlacedOrnamentsProps> = ({ ornaments, shapeTargets, mode, seed, treeHeight, baseRadius, chaosRadius, editor }) => {
+  const [hover, setHover] = useState<ConeSpot | null>(null);
+  const [grabbedId, setGrabbedId] = useState<string | null>(null);
+  const controls = useThree(state => state.controls);
+
+  const surfacePoint = (height: number, angle: number) => {
+    const r = baseRadius * (1 - height) + 0.2 + SURFACE_GAP;
+    return new THREE.Vector3(Math.cos(angle) * r, height * treeHeight - treeHeight / 2, Math.sin(angle) * r);
+  };
+
+  const targets = useMemo(() => {
+    return new Map(ornaments.map(o => [o.id, surfacePoint(o.height, o.angle)]));
+  }, [ornaments, treeHeight, baseRadius]);
+
+  // Each ornament scatters to its own spot, stable across reloads
+  const chaosPositions = useMemo(() => {
+    return new Map(ornaments.map(o => {
+      const random = createStream(seed, `custom:${o.id}`);
+      const spread = chaosRadius * 0.75;
+      return [o.id, new THREE.Vector3((random() - 0.5) * spread * 2, (random() - 0.5) * spread * 2 + 5, (random() - 0.5) * spread * 2)];
+    }));
+  }, [ornaments, seed, chaosRadius]);
+
+  const isDragging = editor !== null && (editor.placing !== null || grabbedId !== null);
+
+  // Orbiting would fight the drag
+  useEffect(() => {
+    if (!canDisable(controls)) return;
+    controls.enabled = !isDragging;
+    return () => { controls.enabled = true; };
+  }, [controls, isDragging]);
+
+  // A grab released off the tree is dropped where it was
+  useEffect(() => {
+    if (grabbedId === null) return;
+    const release = () => setGrabbedId(null);
+    window.addEventListener('pointerup', release);
+    return () => window.removeEventListener('pointerup', release);
+  }, [grabbedId]);
+
+  useEffect(() => {
+    if (!editor) setGrabbedId(null);
+  }, [editor]);
+
+  // Tree-local point on the cone -> height and angle, clamped to the foliage
+  const spotFromEvent = (e: ThreeEvent<PointerEvent>): ConeSpot => {
+    const local = e.object.worldToLocal(e.point.clone());
+    return {
+      height: THREE.MathUtils.clamp((local.y + treeHeight / 2) / treeHeight, 0.03, 0.92),
+      angle: Math.atan2(local.z, local.x),
+    };
+  };
+
+  const handleConeMove = (e: ThreeEvent<PointerEvent>) => {
+    if (!isDragging) return;
+    e.stopPropagation();
+    setHover(spotFromEvent(e));
+  };
+
+  const handleConeUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!editor || !isDragging) return;
+    e.stopPropagation();
+    const spot = spotFromEvent(e);
+    if (editor.placing) {
+      editor.onPlace(editor.placing.kind, editor.placing.color, spot.height, spot.angle);
+    } else if (grabbedId) {
+      editor.onMove(grabbedId, spot.height, spot.angle);
+    }
+    setGrabbedId(null);
+    setHover(null);
+  };
+
+  const ghost = editor?.placing ?? (grabbedId ? ornaments.find(o => o.id === grabbedId) : null);
+
+  return (
+    <group>
+      {/* Hit surface for placing and moving, matching the outside of the foliage */}
+      {editor && (
+        <mesh
+          position={[0, 0, 0]}
+          onPointerMove={handleConeMove}
+          onPointerUp={handleConeUp}
+          onPointerLeave={() => setHover(null)}
+        >
+          <cylinderGeometry args={[0.2 + SURFACE_GAP, baseRadius + 0.2 + SURFACE_GAP, treeHeight, 48, 1, true]} />
+          <meshBasicMaterial visible={false} side={THREE.DoubleSide} />
+        </mesh>
+      )}
+
+      {ornaments.map((o, i) => (
+        <PlacedOrnament
+          key={o.id}
+          ornament={o}
+          target={targets.get(o.id)!}
+          chaosPos={chaosPositions.get(o.id)!}
+          shapePos={shapeTargets[i]}
+          mode={mode}
+          selected={editor?.selectedId === o.id}
+          onPointerDown={editor ? (e) => {
+            e.stopPropagation();
+            editor.onSelect(o.id);
+            setGrabbedId(o.id);
+          } : undefined}
+        />
+      ))}
+
+      {/* Preview of where the item will land */}
+      {ghost && hover && (
+        <group
+          position={surfacePoint(hover.height, hover.angle)}
+          rotation={[0, Math.PI / 2 - hover.angle, 0]}
+        >
+          <OrnamentModel kind={ghost.kind} color={ghost.color} opacity={0.6} />
+        </group>
+      )}
+    </group>
+  );
+};
+
+export default HandPlacedOrnaments;
@@ -1,36 +1,126 @@
 
-import React, { useRef, useMemo, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useLayoutEffect, useCallback } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
 import Decorations from './Decorations';
 import PhotoSpiral from './PhotoSpiral';
-import { TreeState, TreeMode, PhotoData } from '../types';
+import HandPlacedOrnaments, { DecorEditor } from './HandPlacedOrnaments';
+import StringLights from './StringLights';
+import FrostSparkle from './FrostSparkle';
+import GiftBoxes from './GiftBoxes';
+import { TreeState, TreeMode, PhotoData, TreeConfig, GesturePointer, OrnamentDetails, CustomOrnament, GiftTag } from '../types';
+import { createStream } from '../utils/random';
+import { LiveTheme, PALETTE_SLOTS, paletteSlot } from '../utils/themes';
+import { DEFAULT_TREE_CONFIG } from '../utils/treeConfig';
+import { sampleShape, shapeKey } from '../utils/shapeTargets';
+import {
+  ORNAMENT_ACTIONS, LONG_PRESS_MS, PRESS_MOVE_TOLERANCE,
+  createOrnamentMotion, triggerOrnamentAction, applyOrnamentMotion,
+} from '../utils/ornamentActions';
+import { stepSpring, applyRadialImpulse } from '../utils/ornamentPhysics';
+import { CONFETTI, EffectQueue, emitEffect } from '../utils/particleEffects';
 
 interface LuxuryTreeProps {
   treeState: TreeState;
+  config: TreeConfig;
   physicsState: React.MutableRefObject<{ isInteracting: boolean, delta: number, velocity: number }>;
+  photos: PhotoData[];
+  focusedPhotoId: number | null; // Photo the tree turns to face the camera
+  theme: LiveTheme; // Eased by Scene; read every frame
+  gesturePointer: React.MutableRefObject<GesturePointer>;
   onPhotoClick: (photo: PhotoData) => void;
+  onOrnamentDetails: (details: OrnamentDetails) => void; // Long-press on an ornament
+  customOrnaments: CustomOrnament[]; // Hung by hand, on top of the generated ones
+  decorEditor: DecorEditor | null;
+  frostCover: React.MutableRefObject<number> | null; // Settled snow, when it should sparkle on the foliage
+  giftTags: Record<number, GiftTag>;
+  openGift: number | null;
+  onGiftOpen: (index: number) => void;
+  customTopper: THREE.Object3D | null;
+  effects: EffectQueue; // Fireworks, sparks and confetti
 }
 
+// A press on an ornament, from the mouse/touch or a gesture pinch
+interface OrnamentPress<T> {
+  item: T;
+  source: 'pointer' | 'gesture';
+  start: number;
+  x: number; // Client pixels
+  y: number;
+  fired: boolean; // Long-press already opened the card
+}
+
+const WHITE = new THREE.Color('#ffffff');
+// Outward kick given to ornaments right at the blast point when the tree explodes
+const EXPLOSION_IMPULSE = 30;
+
+// Upload this frame's instances. Only the ones in use are drawn and hit-tested,
+// and the bounds follow the ornaments so raycasts keep hitting them as they move.
+const commitInstances = (mesh: THREE.InstancedMesh | null, count: number) => {
+  if (!mesh) return;
+  mesh.count = count;
+  mesh.instanceMatrix.needsUpdate = true;
+  if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  mesh.computeBoundingSphere();
+};
+
+// Seconds for the whole foliage swarm to cross between CHAOS and FORMED
+const FOLIAGE_MORPH_DURATION = 2.0;
+
 // --- CUSTOM SHADER FOR SPARKLING EMERALD FOLIAGE ---
+// The morphs run here: `position` is the formed point, `chaosPosition` the
+// scattered one and `shapePosition` the SHAPE mode target.
+// uProgress sweeps CHAOS to FORMED and uShape blends on to the shape; each
+// point eases along them at its own speed, so fast needles arrive first.
+// Switching shapes while in SHAPE keeps the old target in `prevShapePosition`
+// and uShapeMorph carries the points across to the new one.
 const SparkleMaterial = new THREE.ShaderMaterial({
   uniforms: {
     uTime: { value: 0 },
+    uProgress: { value: 0 }, // 0 = CHAOS, 1 = FORMED
+    uShape: { value: 0 }, // 1 = SHAPE, whatever uProgress is
+    uShapeMorph: { value: 1 }, // 0 = previous shape, 1 = current one
     uColor: { value: new THREE.Color('#052e16') },
+    // Theme foliage colors; each point keeps a slot so themes blend in place
+    uPalette: { value: Array.from({ length: PALETTE_SLOTS }, () => new THREE.Color()) },
   },
   vertexShader: `
     attribute float size;
-    attribute vec3 color;
+    attribute float colorSeed;
+    attribute vec3 chaosPosition;
+    attribute vec3 shapePosition;
+    attribute vec3 prevShapePosition;
+    attribute float speed;
     varying vec3 vColor;
     varying vec3 vPos;
     uniform float uTime;
+    uniform float uProgress;
+    uniform float uShape;
+    uniform float uShapeMorph;
+    uniform vec3 uPalette[${PALETTE_SLOTS}];
     void main() {
-      vColor = color;
-      vPos = position;
-      vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+      vColor = uPalette[int(min(colorSeed * ${PALETTE_SLOTS}.0, ${PALETTE_SLOTS - 1}.0))];
+
+      // Per-point ease-out; a higher speed means a steeper curve
+      float progress = 1.0 - pow(1.0 - uProgress, speed * 2.5);
+      float shapeProgress = 1.0 - pow(1.0 - uShape, speed * 2.5);
+      float morph = 1.0 - pow(1.0 - uShapeMorph, speed * 2.5);
+      vec3 shapeTarget = mix(prevShapePosition, shapePosition, morph);
+      vec3 pos = mix(mix(chaosPosition, position, progress), shapeTarget, shapeProgress);
+
+      // Loose swirl while in flight, gone at either end
+      float flight = max(max(sin(progress * 3.14159), sin(shapeProgress * 3.14159)), sin(morph * 3.14159));
+      pos += vec3(
+        sin(speed * 17.0 + uTime * 1.3),
+        cos(speed * 11.0 + uTime * 0.9),
+        sin(speed * 23.0 - uTime * 1.1)
+      ) * flight * 1.5;
+
+      vPos = pos;
+      vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
       
       // Size attenuation with a breathing effect
-      float breath = 1.0 + sin(uTime * 2.0 + position.y) * 0.1;
+      float breath = 1.0 + sin(uTime * 2.0 + pos.y) * 0.1;
       gl_PointSize = size * breath * (300.0 / -mvPosition.z);
       gl_Position = projectionMatrix * mvPosition;
     }
@@ -57,57 +147,61 @@ const SparkleMaterial = new THREE.ShaderMaterial({
   blending: THREE.AdditiveBlending,
 });
 
-const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhotoClick }) => {
+const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, config, physicsState, photos, focusedPhotoId, theme, gesturePointer, onPhotoClick, onOrnamentDetails, customOrnaments, decorEditor, frostCover, giftTags, openGift, onGiftOpen, customTopper, effects }) => {
   const groupRef = useRef<THREE.Group>(null);
   const foliageRef = useRef<THREE.Points>(null);
   const boxMeshRef = useRef<THREE.InstancedMesh>(null);
   const ballMeshRef = useRef<THREE.InstancedMesh>(null);
+  // Formed positions of the photo frames (tree-local), reported by PhotoSpiral
+  const photoPositionsRef = useRef<Map<number, THREE.Vector3>>(new Map());
 
   // --- CONFIG ---
-  const TREE_HEIGHT = 14;
-  const Y_OFFSET = TREE_HEIGHT / 2; // 7
-  const BASE_RADIUS = 5.0;
+  const {
+    height: TREE_HEIGHT,
+    baseRadius: BASE_RADIUS,
+    foliageCount: FOLIAGE_COUNT,
+    boxCount: BOX_COUNT,
+    ballCount: BALL_COUNT,
+    chaosRadius: CHAOS_RADIUS,
+    giftCount: GIFT_COUNT,
+  } = config;
+  const Y_OFFSET = TREE_HEIGHT / 2;
 
   // Wide radius for spiral
   const SPIRAL_RADIUS = BASE_RADIUS + 1.8; 
-
-  const FOLIAGE_COUNT = 5500; 
-  const BOX_COUNT = 180; 
-  const BALL_COUNT = 450; 
-  const CHAOS_RADIUS = 20;
+  // Ornaments scatter a little tighter than the foliage
+  const ORNAMENT_CHAOS = CHAOS_RADIUS * 0.75;
 
   // --- DATA GENERATION ---
-  const { foliageData, ornaments } = useMemo(() => {
+  const { seed } = treeState;
+  // Foliage and ornaments are built apart: the quality governor rescales the
+  // foliage count mid-session, and that mustn't send the ornaments flying again
+  const foliageData = useMemo(() => {
     // 1. Foliage
-    const fPos = new Float32Array(FOLIAGE_COUNT * 3);
+    const random = createStream(seed, 'foliage');
     const fTarget = new Float32Array(FOLIAGE_COUNT * 3);
     const fChaos = new Float32Array(FOLIAGE_COUNT * 3);
     const fSpeeds = new Float32Array(FOLIAGE_COUNT);
-    const fColors = new Float32Array(FOLIAGE_COUNT * 3);
+    const fColorSeeds = new Float32Array(FOLIAGE_COUNT);
     const fSizes = new Float32Array(FOLIAGE_COUNT);
-
-    const colorPalette = [
-        new THREE.Color("#022c22"), // Darkest Emerald
-        new THREE.Color("#166534"), // Jewel Green
-        new THREE.Color("#059669"), // Bright Emerald
-        new THREE.Color("#065f46"), // Tealish Green
-    ];
+    // Denser foliage gets finer needles so the additive glow doesn't wash out
+    const sizeScale = Math.min(1, Math.sqrt(DEFAULT_TREE_CONFIG.foliageCount / FOLIAGE_COUNT) * 1.5);
 
     for (let i = 0; i < FOLIAGE_COUNT; i++) {
         // Chaos
-        const cx = (Math.random() - 0.5) * CHAOS_RADIUS * 2;
-        const cy = (Math.random() - 0.5) * CHAOS_RADIUS * 2 + 5;
-        const cz = (Math.random() - 0.5) * CHAOS_RADIUS * 2;
+        const cx = (random() - 0.5) * CHAOS_RADIUS * 2;
+        const cy = (random() - 0.5) * CHAOS_RADIUS * 2 + 5;
+        const cz = (random() - 0.5) * CHAOS_RADIUS * 2;
         
         fChaos[i * 3] = cx;
         fChaos[i * 3 + 1] = cy;
         fChaos[i * 3 + 2] = cz;
 
         // Target (Dense Cone)
-        const h = Math.random(); 
+        const h = random(); 
         const rMax = BASE_RADIUS * (1 - h) + 0.2; 
-        const angle = Math.random() * Math.PI * 2;
-        const r = Math.sqrt(Math.random()) * rMax; 
+        const angle = random() * Math.PI * 2;
+        const r = Math.sqrt(random()) * rMax; 
         
         const tx = Math.cos(angle) * r;
         const ty = h * TREE_HEIGHT - Y_OFFSET;
@@ -117,37 +211,38 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
         fTarget[i * 3 + 1] = ty;
         fTarget[i * 3 + 2] = tz;
 
-        // Init
-        fPos[i * 3] = cx;
-        fPos[i * 3 + 1] = cy;
-        fPos[i * 3 + 2] = cz;
-
-        fSpeeds[i] = 0.5 + Math.random() * 2.0;
+        fSpeeds[i] = 0.5 + random() * 2.0;
         
-        const col = colorPalette[Math.floor(Math.random() * colorPalette.length)];
-        fColors[i * 3] = col.r;
-        fColors[i * 3 + 1] = col.g;
-        fColors[i * 3 + 2] = col.b;
+        // Colors come from the theme palette in the shader
+        fColorSeeds[i] = random();
 
-        fSizes[i] = 0.5 + Math.random() * 1.5;
+        fSizes[i] = (0.5 + random() * 1.5) * sizeScale;
     }
 
+    return { targetPositions: fTarget, chaosPositions: fChaos, speeds: fSpeeds, colorSeeds: fColorSeeds, sizes: fSizes };
+  }, [seed, TREE_HEIGHT, BASE_RADIUS, FOLIAGE_COUNT, CHAOS_RADIUS]);
+
+  const { ornaments, boxItems, ballItems } = useMemo(() => {
     // 2. Ornaments
+    const random = createStream(seed, 'ornaments');
+    // Click reactions come from their own stream so the layout stays put
+    const actionRandom = createStream(seed, 'ornamentActions');
+    const pickAction = () => ORNAMENT_ACTIONS[Math.floor(actionRandom() * ORNAMENT_ACTIONS.length)];
     const items = [];
     // Boxes (The Blocks)
     let b = 0;
     while(items.length < BOX_COUNT && b < BOX_COUNT * 2) { 
         b++;
-        const h = Math.random();
+        const h = random();
         
-        if (h > 0.6 && Math.random() > 0.3) continue; 
-        if (h > 0.8 && Math.random() > 0.1) continue; 
+        if (h > 0.6 && random() > 0.3) continue; 
+        if (h > 0.8 && random() > 0.1) continue; 
 
         const rBase = (BASE_RADIUS + 0.2) * (1 - h) + 0.5;
-        const angle = Math.random() * Math.PI * 2;
+        const angle = random() * Math.PI * 2;
         
         // Fix: Bias inward to prevent clipping with outer spiral
-        const r = Math.max(0.5, rBase - Math.random() * 1.2); 
+        const r = Math.max(0.5, rBase - random() * 1.2); 
         
         const tx = Math.cos(angle) * r;
         const ty = h * TREE_HEIGHT - Y_OFFSET;
@@ -155,32 +250,38 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
 
         items.push({
             type: 'box',
-            chaosPos: new THREE.Vector3((Math.random()-0.5)*30, (Math.random()-0.5)*30+5, (Math.random()-0.5)*30),
+            chaosPos: new THREE.Vector3((random()-0.5)*ORNAMENT_CHAOS*2, (random()-0.5)*ORNAMENT_CHAOS*2+5, (random()-0.5)*ORNAMENT_CHAOS*2),
             targetPos: new THREE.Vector3(tx, ty, tz),
             currentPos: new THREE.Vector3(),
-            rotation: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, 0),
-            speed: 0.5 + Math.random() * 0.5, 
-            color: Math.random() > 0.6 ? '#FFD700' : (Math.random() > 0.5 ? '#8B0000' : '#B8860B'), 
-            scale: 0.4 + Math.random() * 0.4 
+            velocity: new THREE.Vector3(),
+            rotation: new THREE.Euler(random()*Math.PI, random()*Math.PI, 0),
+            speed: 0.5 + random() * 0.5, 
+            colorSlot: paletteSlot(random()), 
+            scale: 0.4 + random() * 0.4,
+            action: pickAction(),
+            motion: createOrnamentMotion(),
         });
     }
 
     // Balls (Fillers)
     for(let i=0; i<BALL_COUNT; i++) {
-        const h = Math.random();
+        const h = random();
         const rBase = (BASE_RADIUS - 0.2) * (1 - h) + 0.5;
-        const angle = Math.random() * Math.PI * 2;
-        const r = (rBase - 0.5) * Math.random(); 
+        const angle = random() * Math.PI * 2;
+        const r = (rBase - 0.5) * random(); 
 
         items.push({
             type: 'ball',
-            chaosPos: new THREE.Vector3((Math.random()-0.5)*30, (Math.random()-0.5)*30+5, (Math.random()-0.5)*30),
+            chaosPos: new THREE.Vector3((random()-0.5)*ORNAMENT_CHAOS*2, (random()-0.5)*ORNAMENT_CHAOS*2+5, (random()-0.5)*ORNAMENT_CHAOS*2),
             targetPos: new THREE.Vector3(Math.cos(angle)*r, h*TREE_HEIGHT - Y_OFFSET, Math.sin(angle)*r),
             currentPos: new THREE.Vector3(),
+            velocity: new THREE.Vector3(),
             rotation: new THREE.Euler(0,0,0),
-            speed: 2.0 + Math.random() * 2.0, 
-            color: Math.random() > 0.5 ? '#C0C0C0' : '#FF0000',
-            scale: 0.2 + Math.random() * 0.2
+            speed: 2.0 + random() * 2.0, 
+            colorSlot: paletteSlot(random()),
+            scale: 0.2 + random() * 0.2,
+            action: pickAction(),
+            motion: createOrnamentMotion(),
         });
     }
     
@@ -188,24 +289,183 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
     items.forEach(i => i.currentPos.copy(i.chaosPos));
 
     return { 
-        foliageData: { positions: fPos, targetPositions: fTarget, chaosPositions: fChaos, speeds: fSpeeds, colors: fColors, sizes: fSizes },
-        ornaments: items
+        ornaments: items,
+        // Instance id -> ornament, per mesh
+        boxItems: items.filter(item => item.type === 'box'),
+        ballItems: items.filter(item => item.type === 'ball'),
     };
-  }, []);
+  }, [seed, TREE_HEIGHT, BASE_RADIUS, BOX_COUNT, BALL_COUNT, CHAOS_RADIUS]);
+
+  // --- SHAPE TARGETS ---
+  // Sampled apart from the tree so changing the shape leaves the tree alone
+  const { shape } = treeState;
+  const shapeId = shapeKey(shape);
+  const shapeFrame = useMemo(() => (
+    { width: BASE_RADIUS * 3.5, height: TREE_HEIGHT * 0.75, centerY: 1, depth: 0.6, z: 0 }
+  ), [BASE_RADIUS, TREE_HEIGHT]);
+  const shapeFoliage = useMemo(() => {
+    return sampleShape(shape, FOLIAGE_COUNT, createStream(seed, 'shape'), shapeFrame);
+  }, [seed, shapeId, FOLIAGE_COUNT, shapeFrame]);
+  // Own stream, so a rescaled foliage count leaves the ornament targets alone
+  const shapeOrnaments = useMemo(() => {
+    // Ornaments sit just in front of the foliage
+    const points = sampleShape(shape, ornaments.length, createStream(seed, 'shapeOrnaments'), { ...shapeFrame, depth: 0.3, z: 0.5 });
+    return ornaments.map((_, i) => new THREE.Vector3().fromArray(points, i * 3));
+  }, [seed, shapeId, ornaments, shapeFrame]);
+  // Hand-placed ornaments join the shape too, on their own stream
+  const shapeCustomOrnaments = useMemo(() => {
+    const points = sampleShape(shape, customOrnaments.length, createStream(seed, 'shapeCustomOrnaments'), { ...shapeFrame, depth: 0.3, z: 0.5 });
+    return customOrnaments.map((_, i) => new THREE.Vector3().fromArray(points, i * 3));
+  }, [seed, shapeId, customOrnaments, shapeFrame]);
+
+  // Shape targets live in buffers owned here and are rewritten in place, so
+  // a new shape morphs from the last instead of remounting the geometry
+  const shapeBuffers = useMemo(() => ({
+    current: new Float32Array(FOLIAGE_COUNT * 3),
+    previous: new Float32Array(FOLIAGE_COUNT * 3),
+  }), [seed, FOLIAGE_COUNT]);
+  const filledBuffers = useRef<typeof shapeBuffers | null>(null);
+
+  useLayoutEffect(() => {
+    const geometry = foliageRef.current?.geometry;
+    const { current, previous } = shapeBuffers;
+    const { uShape, uShapeMorph } = SparkleMaterial.uniforms;
+    if (filledBuffers.current === shapeBuffers && uShape.value > 0) {
+        // Start from where each point is now, partway through any earlier morph
+        const speeds = foliageData.speeds;
+        for (let i = 0; i < FOLIAGE_COUNT; i++) {
+            const morph = 1 - Math.pow(1 - uShapeMorph.value, speeds[i] * 2.5);
+            for (let k = i * 3; k < i * 3 + 3; k++) previous[k] += (current[k] - previous[k]) * morph;
+        }
+        uShapeMorph.value = 0;
+    } else {
+        previous.set(shapeFoliage);
+        uShapeMorph.value = 1;
+    }
+    current.set(shapeFoliage);
+    filledBuffers.current = shapeBuffers;
+    if (geometry) {
+        geometry.getAttribute('shapePosition').needsUpdate = true;
+        geometry.getAttribute('prevShapePosition').needsUpdate = true;
+    }
+  }, [shapeBuffers, shapeFoliage, foliageData, FOLIAGE_COUNT]);
 
   const dummy = useMemo(() => new THREE.Object3D(), []);
+  const tmpColor = useMemo(() => new THREE.Color(), []);
+
+  // --- ORNAMENT INTERACTION ---
+  type Ornament = typeof ornaments[number];
+  const pointerHoverRef = useRef<Ornament | null>(null);
+  const gestureHoverRef = useRef<Ornament | null>(null);
+  const pressRef = useRef<OrnamentPress<Ornament> | null>(null);
+  const gesturePressedRef = useRef(false);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const ndc = useMemo(() => new THREE.Vector2(), []);
+
+  // --- EXPLOSION ---
+  const lastModeRef = useRef(treeState.mode);
+  const blastPlane = useMemo(() => new THREE.Plane(), []);
+  const blastOrigin = useMemo(() => new THREE.Vector3(), []);
+
+  const ornamentAt = (kind: 'box' | 'ball', instanceId: number | undefined): Ornament | null => {
+    if (instanceId === undefined) return null;
+    return (kind === 'box' ? boxItems : ballItems)[instanceId] ?? null;
+  };
+
+  const beginPress = (item: Ornament, source: OrnamentPress<Ornament>['source'], x: number, y: number) => {
+    pressRef.current = { item, source, start: performance.now(), x, y, fired: false };
+  };
+
+  // Releasing on the pressed ornament is a click, unless the long-press already fired
+  const endPress = (item: Ornament | null, source: OrnamentPress<Ornament>['source']) => {
+    const press = pressRef.current;
+    if (!press || press.source !== source) return;
+    pressRef.current = null;
+    if (press.item === item && !press.fired) triggerOrnamentAction(item.motion, item.action);
+  };
+
+  const showDetails = (press: OrnamentPress<Ornament>) => {
+    const { item } = press;
+    const palette = item.type === 'box' ? theme.boxes : theme.balls;
+    onOrnamentDetails({
+      index: ornaments.indexOf(item) + 1,
+      total: ornaments.length,
+      kind: item.type === 'box' ? 'box' : 'ball',
+      color: `#${palette[item.colorSlot].getHexString()}`,
+      height: THREE.MathUtils.clamp((item.targetPos.y + Y_OFFSET) / TREE_HEIGHT, 0, 1),
+      action: item.action,
+      screen: { x: press.x, y: press.y },
+    });
+  };
+
+  const ornamentHandlers = (kind: 'box' | 'ball') => ({
+    onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      pointerHoverRef.current = ornamentAt(kind, e.instanceId);
+      // Dragging the tree around isn't a press
+      const press = pressRef.current;
+      if (press?.source === 'pointer' && Math.hypot(e.nativeEvent.clientX - press.x, e.nativeEvent.clientY - press.y) > PRESS_MOVE_TOLERANCE) {
+        pressRef.current = null;
+      }
+    },
+    onPointerOut: () => {
+      pointerHoverRef.current = null;
+      if (pressRef.current?.source === 'pointer') pressRef.current = null;
+    },
+    onPointerDown: (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      const item = ornamentAt(kind, e.instanceId);
+      if (item) beginPress(item, 'pointer', e.nativeEvent.clientX, e.nativeEvent.clientY);
+    },
+    onPointerUp: (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      endPress(ornamentAt(kind, e.instanceId), 'pointer');
+    },
+  });
+
+  const handlePhotoLayout = useCallback((positions: Map<number, THREE.Vector3>) => {
+    photoPositionsRef.current = positions;
+  }, []);
+
+  // Confetti from a photo as it opens
+  useEffect(() => {
+    const local = focusedPhotoId !== null ? photoPositionsRef.current.get(focusedPhotoId) : undefined;
+    if (!local || !groupRef.current) return;
+    emitEffect(effects, { ...CONFETTI, preset: 'burst', position: groupRef.current.localToWorld(local.clone()) });
+  }, [focusedPhotoId, effects]);
 
   // --- LOOP ---
   useFrame((state, delta) => {
     const time = state.clock.getElapsedTime();
     SparkleMaterial.uniforms.uTime.value = time;
+    (SparkleMaterial.uniforms.uPalette.value as THREE.Color[]).forEach((c, i) => c.copy(theme.foliage[i]));
 
     // 1. Rotation Logic (Direct Control + Inertia)
     if (groupRef.current) {
-        // Auto speed (background rotation)
-        const autoSpeed = treeState.rotationSpeed * 0.2;
+        // Auto speed (background rotation); held still while decorating
+        const autoSpeed = decorEditor ? 0 : treeState.rotationSpeed * 0.2;
+        const focusPos = focusedPhotoId !== null ? photoPositionsRef.current.get(focusedPhotoId) : undefined;
         
-        if (physicsState.current.isInteracting) {
+        if (focusPos) {
+            // FOCUS: Turn so the open photo faces the camera.
+            // Rotating the group by r moves a point at local angle a to world angle a - r.
+            const photoAngle = Math.atan2(focusPos.z, focusPos.x);
+            const cameraAngle = Math.atan2(state.camera.position.z, state.camera.position.x);
+            const current = groupRef.current.rotation.y;
+            // Shortest way round
+            let diff = (photoAngle - cameraAngle) - current;
+            diff = Math.atan2(Math.sin(diff), Math.cos(diff));
+            groupRef.current.rotation.y = current + diff * Math.min(1, delta * 3.0);
+            physicsState.current.velocity = 0;
+        } else if (treeState.mode === TreeMode.SHAPE) {
+            // SHAPE: Turn the shape's front (local +Z) to the camera so text reads
+            const cameraAngle = Math.atan2(state.camera.position.z, state.camera.position.x);
+            const current = groupRef.current.rotation.y;
+            let diff = (Math.PI / 2 - cameraAngle) - current;
+            diff = Math.atan2(Math.sin(diff), Math.cos(diff));
+            groupRef.current.rotation.y = current + diff * Math.min(1, delta * 3.0);
+            physicsState.current.velocity = 0;
+        } else if (physicsState.current.isInteracting) {
             // DIRECT CONTROL: Hand/Mouse movement mapped directly to rotation
             groupRef.current.rotation.y += physicsState.current.delta;
             // Clear delta so we don't double-apply
@@ -226,79 +486,149 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
     }
 
     const isFormed = treeState.mode === TreeMode.FORMED;
+    const isShape = treeState.mode === TreeMode.SHAPE;
 
-    // 2. Foliage Physics
-    if (foliageRef.current) {
-        const positions = foliageRef.current.geometry.attributes.position.array as Float32Array;
-        const targets = isFormed ? foliageData.targetPositions : foliageData.chaosPositions;
-        
-        for(let i=0; i<FOLIAGE_COUNT; i++) {
-            const ix = i * 3;
-            const speed = foliageData.speeds[i] * delta * 4.0;
-            
-            positions[ix] = THREE.MathUtils.lerp(positions[ix], targets[ix], speed);
-            positions[ix+1] = THREE.MathUtils.lerp(positions[ix+1], targets[ix+1], speed);
-            positions[ix+2] = THREE.MathUtils.lerp(positions[ix+2], targets[ix+2], speed);
+    // 2. Foliage Morph (per-point easing happens in the shader)
+    const { uProgress, uShape } = SparkleMaterial.uniforms;
+    const step = delta / FOLIAGE_MORPH_DURATION;
+    if (!isShape) {
+        uProgress.value = isFormed ? Math.min(1, uProgress.value + step) : Math.max(0, uProgress.value - step);
+    }
+    uShape.value = isShape ? Math.min(1, uShape.value + step) : Math.max(0, uShape.value - step);
+    const { uShapeMorph } = SparkleMaterial.uniforms;
+    uShapeMorph.value = Math.min(1, uShapeMorph.value + step);
+
+    // 3. Gesture Pointer: same hover and press handling as the mouse, raycast by hand
+    const pointer = gesturePointer.current;
+    if (pointer.active && boxMeshRef.current && ballMeshRef.current) {
+        ndc.set(pointer.x, pointer.y);
+        raycaster.setFromCamera(ndc, state.camera);
+        const hit = raycaster.intersectObjects([boxMeshRef.current, ballMeshRef.current], false)[0];
+        gestureHoverRef.current = hit ? ornamentAt(hit.object === boxMeshRef.current ? 'box' : 'ball', hit.instanceId) : null;
+
+        if (pointer.pressed !== gesturePressedRef.current) {
+            if (pointer.pressed && gestureHoverRef.current) {
+                const rect = state.gl.domElement.getBoundingClientRect();
+                beginPress(
+                    gestureHoverRef.current,
+                    'gesture',
+                    rect.left + (pointer.x + 1) / 2 * rect.width,
+                    rect.top + (1 - pointer.y) / 2 * rect.height
+                );
+            } else if (!pointer.pressed) {
+                endPress(gestureHoverRef.current, 'gesture');
+            }
         }
-        foliageRef.current.geometry.attributes.position.needsUpdate = true;
+        gesturePressedRef.current = pointer.pressed;
+    } else {
+        gestureHoverRef.current = null;
+        gesturePressedRef.current = false;
+        if (pressRef.current?.source === 'gesture') pressRef.current = null;
+    }
+
+    const press = pressRef.current;
+    if (press && !press.fired && performance.now() - press.start > LONG_PRESS_MS) {
+        press.fired = true;
+        showDetails(press);
     }
 
-    // 3. Ornaments Physics
+    // 4. Explosion: switching to CHAOS blasts ornaments away from the hand, or
+    // the cursor without one, where it points at the tree's depth
+    if (treeState.mode !== lastModeRef.current) {
+        lastModeRef.current = treeState.mode;
+        if (treeState.mode === TreeMode.CHAOS && groupRef.current) {
+            if (pointer.active) ndc.set(pointer.x, pointer.y);
+            else ndc.copy(state.pointer);
+            raycaster.setFromCamera(ndc, state.camera);
+            state.camera.getWorldDirection(blastPlane.normal).negate();
+            blastPlane.constant = 0; // Through the trunk
+            if (!raycaster.ray.intersectPlane(blastPlane, blastOrigin)) blastOrigin.set(0, 0, 0);
+            groupRef.current.worldToLocal(blastOrigin);
+            ornaments.forEach(item => applyRadialImpulse(item.currentPos, item.velocity, blastOrigin, EXPLOSION_IMPULSE));
+        }
+    }
+
+    // 5. Ornaments Physics: springs toward the target, overshooting a little
     let boxIdx = 0;
     let ballIdx = 0;
-    ornaments.forEach((item) => {
-        const target = isFormed ? item.targetPos : item.chaosPos;
-        const dist = item.currentPos.distanceTo(target);
-        const speed = item.speed * delta * (1.0 + dist * 0.5);
-
-        item.currentPos.lerp(target, speed);
+    ornaments.forEach((item, i) => {
+        const target = isShape ? shapeOrnaments[i] : isFormed ? item.targetPos : item.chaosPos;
+        stepSpring(item.currentPos, item.velocity, target, 2 + item.speed * 2, delta);
         
         item.rotation.x += delta * 0.2;
         item.rotation.y += delta * 0.5;
 
+        const highlighted = item === pointerHoverRef.current || item === gestureHoverRef.current;
+
         dummy.position.copy(item.currentPos);
         dummy.rotation.copy(item.rotation);
-        dummy.scale.setScalar(item.scale);
+        // Lean into the motion, so settling reads as a wobble
+        dummy.rotation.x += item.velocity.z * 0.04;
+        dummy.rotation.z -= item.velocity.x * 0.04;
+        applyOrnamentMotion(item.motion, dummy, item.currentPos, delta);
+        dummy.scale.setScalar(item.scale * (highlighted ? 1.3 : 1));
         dummy.updateMatrix();
 
+        tmpColor.copy((item.type === 'box' ? theme.boxes : theme.balls)[item.colorSlot]);
+        if (highlighted) tmpColor.lerp(WHITE, 0.4);
+
         if (item.type === 'box' && boxMeshRef.current) {
-            boxMeshRef.current.setColorAt(boxIdx, new THREE.Color(item.color));
+            boxMeshRef.current.setColorAt(boxIdx, tmpColor);
             boxMeshRef.current.setMatrixAt(boxIdx, dummy.matrix);
             boxIdx++;
         } else if (item.type === 'ball' && ballMeshRef.current) {
-            ballMeshRef.current.setColorAt(ballIdx, new THREE.Color(item.color));
+            ballMeshRef.current.setColorAt(ballIdx, tmpColor);
             ballMeshRef.current.setMatrixAt(ballIdx, dummy.matrix);
             ballIdx++;
         }
     });
 
-    if (boxMeshRef.current) {
-        boxMeshRef.current.instanceMatrix.needsUpdate = true;
-        if (boxMeshRef.current.instanceColor) boxMeshRef.current.instanceColor.needsUpdate = true;
-    }
-    if (ballMeshRef.current) {
-        ballMeshRef.current.instanceMatrix.needsUpdate = true;
-        if (ballMeshRef.current.instanceColor) ballMeshRef.current.instanceColor.needsUpdate = true;
-    }
+    commitInstances(boxMeshRef.current, boxIdx);
+    commitInstances(ballMeshRef.current, ballIdx);
   });
 
   return (
     <group ref={groupRef}>
       {/* 1. Shader Foliage */}
-      <points ref={foliageRef}>
-        <bufferGeometry>
+      {/* Bounds only cover the formed cone, so never cull */}
+      <points ref={foliageRef} frustumCulled={false}>
+        <bufferGeometry key={`${seed}:${FOLIAGE_COUNT}`}>
             <bufferAttribute 
                 attach="attributes-position" 
                 count={FOLIAGE_COUNT} 
-                array={foliageData.positions} 
+                array={foliageData.targetPositions} 
+                itemSize={3} 
+            />
+            <bufferAttribute 
+                attach="attributes-chaosPosition" 
+                count={FOLIAGE_COUNT} 
+                array={foliageData.chaosPositions} 
                 itemSize={3} 
             />
             <bufferAttribute 
-                attach="attributes-color" 
+                attach="attributes-shapePosition" 
                 count={FOLIAGE_COUNT} 
-                array={foliageData.colors} 
+                array={shapeBuffers.current} 
                 itemSize={3} 
             />
+            <bufferAttribute 
+                attach="attributes-prevShapePosition" 
+                count={FOLIAGE_COUNT} 
+                array={shapeBuffers.previous} 
+                itemSize={3} 
+            />
+            <bufferAttribute 
+                attach="attributes-speed" 
+                count={FOLIAGE_COUNT} 
+                array={foliageData.speeds} 
+                itemSize={1} 
+            />
+            <bufferAttribute 
+                attach="attributes-colorSeed" 
+                count={FOLIAGE_COUNT} 
+                array={foliageData.colorSeeds} 
+                itemSize={1} 
+            />
             <bufferAttribute 
                 attach="attributes-size" 
                 count={FOLIAGE_COUNT} 
@@ -310,7 +640,7 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
       </points>
 
       {/* 2. Blocky Boxes */}
-      <instancedMesh ref={boxMeshRef} args={[undefined, undefined, BOX_COUNT]} castShadow receiveShadow>
+      <instancedMesh ref={boxMeshRef} args={[undefined, undefined, BOX_COUNT]} castShadow receiveShadow {...ornamentHandlers('box')}>
          <boxGeometry args={[1, 1, 1]} />
          <meshStandardMaterial 
             roughness={0.15} 
@@ -320,7 +650,7 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
       </instancedMesh>
 
       {/* 3. Shiny Balls */}
-      <instancedMesh ref={ballMeshRef} args={[undefined, undefined, BALL_COUNT]} castShadow>
+      <instancedMesh ref={ballMeshRef} args={[undefined, undefined, BALL_COUNT]} castShadow {...ornamentHandlers('ball')}>
          <sphereGeometry args={[1, 32, 32]} />
          <meshStandardMaterial 
             roughness={0.05} 
@@ -329,24 +659,88 @@ const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, physicsState, onPhot
          />
       </instancedMesh>
 
-      {/* 4. The Photo Spiral (Now controlled by mode) */}
+      {/* 4. The Photo Spiral (Now controlled by mode and layout) */}
       <PhotoSpiral 
         radius={SPIRAL_RADIUS} 
         height={TREE_HEIGHT + 1} 
         turns={4} 
-        photoCount={14} 
+        photos={photos} 
+        layout={treeState.photoLayout}
+        frameStyle={treeState.frameStyle}
+        seed={seed}
+        railColor={theme.rail}
         onPhotoClick={onPhotoClick}
+        onLayout={handlePhotoLayout}
         mode={treeState.mode} 
+        effects={effects}
       />
 
-      {/* 5. Star */}
-      <Decorations mode={treeState.mode} />
+      {/* 4b. Hand-placed ornaments */}
+      <HandPlacedOrnaments
+        ornaments={customOrnaments}
+        shapeTargets={shapeCustomOrnaments}
+        mode={treeState.mode}
+        seed={seed}
+        treeHeight={TREE_HEIGHT}
+        baseRadius={BASE_RADIUS}
+        chaosRadius={CHAOS_RADIUS}
+        editor={decorEditor}
+      />
+
+      {/* 4c. String lights */}
+      <StringLights
+        mode={treeState.mode}
+        seed={seed}
+        pattern={treeState.lightPattern}
+        drape={treeState.lightDrape}
+        intensity={treeState.lightIntensity}
+        palette={theme.balls}
+        treeHeight={TREE_HEIGHT}
+        baseRadius={BASE_RADIUS}
+        chaosRadius={CHAOS_RADIUS}
+      />
+
+      {/* 4d. Snow settled on the branches */}
+      {frostCover && (
+        <FrostSparkle
+          mode={treeState.mode}
+          seed={seed}
+          cover={frostCover}
+          treeHeight={TREE_HEIGHT}
+          baseRadius={BASE_RADIUS}
+        />
+      )}
+
+      {/* 5. Topper */}
+      <Decorations
+        mode={treeState.mode}
+        seed={seed}
+        height={Y_OFFSET + config.starOffset}
+        color={theme.star}
+        topper={treeState.topper}
+        customModel={customTopper}
+        effects={effects}
+      />
 
       {/* 6. Base / Trunk */}
       <mesh position={[0, -Y_OFFSET, 0]} receiveShadow>
          <cylinderGeometry args={[1.0, 1.5, 3, 16]} />
          <meshStandardMaterial color="#3E2723" roughness={0.9} />
       </mesh>
+
+      {/* 7. Presents around the trunk */}
+      <GiftBoxes
+        count={GIFT_COUNT}
+        mode={treeState.mode}
+        seed={seed}
+        groundY={-Y_OFFSET - 1.5}
+        baseRadius={BASE_RADIUS}
+        chaosRadius={CHAOS_RADIUS}
+        palette={theme.gifts}
+        tags={giftTags}
+        openIndex={openGift}
+        onOpen={onGiftOpen}
+      />
     </group>
   );
 };
@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { OrnamentDetails } from '../types';
+import { ORNAMENT_ACTION_LABELS } from '../utils/ornamentActions';
+
+interface OrnamentCardProps {
+  details: OrnamentDetails;
+  onClose: () => void;
+}
+
+const CARD_WIDTH = 200;
+const CARD_HEIGHT = 150;
+
+// Small card opened by long-pressing an ornament, placed beside the press and
+// kept on screen. Escape or a press anywhere else closes it.
+const OrnamentCard: React.FC<OrnamentCardProps> = ({ details, onClose }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    const handlePointer = (e: PointerEvent) => {
+      if (!cardRef.current?.contains(e.target as Node)) onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('pointerdown', handlePointer);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('pointerdown', handlePointer);
+    };
+  }, [onClose]);
+
+  const left = Math.min(Math.max(8, details.screen.x + 16), window.innerWidth - CARD_WIDTH - 8);
+  const top = Math.min(Math.max(8, details.screen.y - CARD_HEIGHT / 2), window.innerHeight - CARD_HEIGHT - 8);
+
+  return (
+    <div
+      ref={cardRef}
+      className="fixed z-50 backdrop-blur-xl bg-black/70 border border-[#FFD700]/40 rounded-2xl p-4 flex flex-col gap-2 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+      style={{ left, top, width: CARD_WIDTH }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[#FFD700] text-xs tracking-widest font-serif font-bold">
+          {details.kind === 'box' ? 'GIFT BLOCK' : 'GLASS BAUBLE'}
+        </span>
+        <button onClick={onClose} className="text-[#FFD700]/70 hover:text-[#FFD700]">
+          <X size={14} />
+        </button>
+      </div>
+      <span className="text-[10px] text-[#e0e0e0]/60 tracking-widest font-serif">
+        NO. {details.index} OF {details.total}
+      </span>
+      <div className="w-full h-px bg-white/20" />
+      <div className="flex items-center gap-2 text-[10px] text-[#e0e0e0] font-serif tracking-wider">
+        <span className="w-3 h-3 rounded-full border border-white/30" style={{ background: details.color }} />
+        {details.color.toUpperCase()}
+      </div>
+      <span className="text-[10px] text-[#e0e0e0] font-serif tracking-wider">
+        Hangs {Math.round(details.height * 100)}% of the way up
+      </span>
+      <span className="text-[10px] text-[#e0e0e0] font-serif tracking-wider">
+        Tap: {ORNAMENT_ACTION_LABELS[details.action].toLowerCase()}
+      </span>
+    </div>
+  );
+};
+
+export default OrnamentCard;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Paintbrush, X, Circle, Box, Bell, CandyCane, Trash2 } from 'lucide-react';
+import { CustomOrnamentKind } from '../types';
+import { CUSTOM_ORNAMENT_KINDS } from '../hooks/useCustomOrnaments';
+
+interface OrnamentPaletteProps {
+  isOpen: boolean; // Edit mode
+  onToggle: () => void;
+  placing: CustomOrnamentKind | null;
+  onPick: (kind: CustomOrnamentKind | null, color: string) => void;
+  count: number;
+  hasSelection: boolean;
+  onRemoveSelected: () => void;
+  onClear: () => void;
+}
+
+const KIND_ICONS: Record<CustomOrnamentKind, React.ComponentType<{ size?: number }>> = {
+  ball: Circle,
+  box: Box,
+  bell: Bell,
+  candyCane: CandyCane,
+};
+
+// Decorating panel. Drag an item onto the tree, or tap it and then tap the
+// tree. Placed ornaments can be dragged to a new spot or selected and removed.
+const OrnamentPalette: React.FC<OrnamentPaletteProps> = ({ isOpen, onToggle, placing, onPick, count, hasSelection, onRemoveSelected, onClear }) => {
+  const [color, setColor] = useState('#D32F2F');
+
+  useEffect(() => {
+    if (!placing) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onPick(null, color);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [placing, color, onPick]);
+
+  const handlePick = (e: React.PointerEvent<HTMLButtonElement>, kind: CustomOrnamentKind) => {
+    // Touch captures the pointer on the button; release it so the drag reaches the canvas
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    onPick(kind, color);
+  };
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2">
+      <button
+        onClick={onToggle}
+        className={`backdrop-blur-xl bg-black/50 border text-[#FFD700] p-3 rounded-full hover:bg-white/5 transition-all ${isOpen ? 'border-[#FFD700]' : 'border-[#FFD700]/30'}`}
+        title="Decorate"
+      >
+        {isOpen ? <X size={18} /> : <Paintbrush size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 px-4 py-3 rounded-2xl flex flex-col items-center gap-3 shadow-[0_0_50px_rgba(0,0,0,0.8)]">
+          <div className="flex items-center gap-2">
+            {CUSTOM_ORNAMENT_KINDS.map(({ kind, label }) => {
+              const Icon = KIND_ICONS[kind];
+              return (
+                <button
+                  key={kind}
+                  onPointerDown={(e) => handlePick(e, kind)}
+                  className={`flex flex-col items-center gap-1 w-14 p-2 rounded-lg border transition-all touch-none ${placing === kind ? 'border-[#FFD700] bg-[#FFD700]/10' : 'border-transparent hover:bg-white/5'}`}
+                  style={{ color }}
+                  title={`Drag a ${label.toLowerCase()} onto the tree`}
+                >
+                  <Icon size={20} />
+                  <span className="text-[8px] text-[#e0e0e0] tracking-widest font-serif">{label.toUpperCase()}</span>
+                </button>
+              );
+            })}
+            <label className="flex flex-col items-center gap-1 w-14 p-2 cursor-pointer" title="Ornament color">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => {
+                  setColor(e.target.value);
+                  if (placing) onPick(placing, e.target.value);
+                }}
+                className="w-6 h-6 bg-transparent border-none cursor-pointer"
+              />
+              <span className="text-[8px] text-[#e0e0e0] tracking-widest font-serif">COLOR</span>
+            </label>
+          </div>
+
+          <div className="w-full h-px bg-white/20" />
+
+          <div className="flex items-center justify-between w-full gap-4">
+            <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">
+              {placing ? 'DROP IT ON THE TREE' : `${count} HUNG`}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={onRemoveSelected}
+                disabled={!hasSelection}
+                className="flex items-center gap-1 text-[10px] text-[#FFD700] tracking-widest font-serif hover:bg-white/5 rounded px-1 py-0.5 disabled:opacity-40"
+              >
+                <Trash2 size={12} /> REMOVE
+              </button>
+              <button
+                onClick={onClear}
+                disabled={count === 0}
+                className="text-[10px] text-red-300 tracking-widest font-serif hover:bg-white/5 rounded px-1 py-0.5 disabled:opacity-40"
+              >
+                CLEAR ALL
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrnamentPalette;
@@ -0,0 +1,150 @@
+import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectQueue, resolveEffect } from '../utils/particleEffects';
+
+interface ParticleEffectsProps {
+  queue: EffectQueue; // Drained every frame
+  capacity: number; // Pool size; the oldest particles are recycled when it runs out
+  scale: number; // Quality multiplier on every emission's count
+}
+
+// Scaled to nothing: a free or not-yet-launched slot
+const HIDDEN = new THREE.Matrix4().makeScale(0, 0, 0);
+
+// Every queued effect shares one instanced pool of flat, tumbling quads.
+// Particles live in world space, so emitters can move or unmount freely.
+const ParticleEffects: React.FC<ParticleEffectsProps> = ({ queue, capacity, scale }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const color = useMemo(() => new THREE.Color(), []);
+  const direction = useMemo(() => new THREE.Vector3(), []);
+  // Parsed once per color string
+  const colorCache = useMemo(() => new Map<string, THREE.Color>(), []);
+  const cursor = useRef(0);
+  const live = useRef(0);
+
+  const pool = useMemo(() => ({
+    position: new Float32Array(capacity * 3),
+    velocity: new Float32Array(capacity * 3),
+    age: new Float32Array(capacity),
+    life: new Float32Array(capacity), // 0 marks a free slot
+    delay: new Float32Array(capacity),
+    size: new Float32Array(capacity),
+    gravity: new Float32Array(capacity),
+    drag: new Float32Array(capacity),
+    spin: new Float32Array(capacity),
+  }), [capacity]);
+
+  // Start with every slot hidden; instance colors must exist before the first render
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    for (let i = 0; i < capacity; i++) {
+      mesh.setMatrixAt(i, HIDDEN);
+      mesh.setColorAt(i, color.setScalar(0));
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    cursor.current = 0;
+    live.current = 0;
+  }, [capacity, color]);
+
+  const colorOf = (value: string) => {
+    let parsed = colorCache.get(value);
+    if (!parsed) {
+      parsed = new THREE.Color(value);
+      colorCache.set(value, parsed);
+    }
+    return parsed;
+  };
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dt = Math.min(delta, 0.1);
+
+    // 1. Spawn everything queued since the last frame
+    const spawned = queue.pending.length > 0;
+    queue.pending.forEach(request => {
+      const effect = resolveEffect(request);
+      const axis = request.axis!;
+      const count = Math.max(1, Math.round(effect.count * scale));
+      for (let n = 0; n < count; n++) {
+        const i = cursor.current;
+        cursor.current = (i + 1) % capacity;
+        if (pool.life[i] === 0) live.current++;
+
+        effect.launch(axis, direction);
+        const speed = THREE.MathUtils.lerp(effect.speed[0], effect.speed[1], Math.random());
+        pool.position[i * 3] = request.position.x + (Math.random() - 0.5) * effect.spread;
+        pool.position[i * 3 + 1] = request.position.y + (Math.random() - 0.5) * effect.spread;
+        pool.position[i * 3 + 2] = request.position.z + (Math.random() - 0.5) * effect.spread;
+        pool.velocity[i * 3] = direction.x * speed;
+        pool.velocity[i * 3 + 1] = direction.y * speed;
+        pool.velocity[i * 3 + 2] = direction.z * speed;
+        pool.age[i] = 0;
+        pool.life[i] = THREE.MathUtils.lerp(effect.life[0], effect.life[1], Math.random());
+        pool.delay[i] = Math.random() * effect.duration;
+        pool.size[i] = effect.size * (0.6 + Math.random() * 0.8);
+        pool.gravity[i] = effect.gravity;
+        pool.drag[i] = effect.drag;
+        pool.spin[i] = effect.spin * (0.5 + Math.random());
+
+        color.copy(colorOf(effect.colors[Math.floor(Math.random() * effect.colors.length)])).multiplyScalar(effect.glow);
+        mesh.setColorAt(i, color);
+        mesh.setMatrixAt(i, HIDDEN);
+      }
+    });
+    queue.pending.length = 0;
+    if (spawned && mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+
+    // Nothing in flight: the matrices are already all hidden
+    if (live.current === 0) return;
+
+    // 2. Step and draw the live ones
+    for (let i = 0; i < capacity; i++) {
+      if (pool.life[i] === 0) continue;
+
+      if (pool.delay[i] > 0) {
+        pool.delay[i] -= dt;
+        continue;
+      }
+
+      pool.age[i] += dt;
+      const t = pool.age[i] / pool.life[i];
+      if (t >= 1) {
+        pool.life[i] = 0;
+        live.current--;
+        mesh.setMatrixAt(i, HIDDEN);
+        continue;
+      }
+
+      const damping = Math.exp(-pool.drag[i] * dt);
+      pool.velocity[i * 3] *= damping;
+      pool.velocity[i * 3 + 1] = pool.velocity[i * 3 + 1] * damping + pool.gravity[i] * dt;
+      pool.velocity[i * 3 + 2] *= damping;
+      pool.position[i * 3] += pool.velocity[i * 3] * dt;
+      pool.position[i * 3 + 1] += pool.velocity[i * 3 + 1] * dt;
+      pool.position[i * 3 + 2] += pool.velocity[i * 3 + 2] * dt;
+
+      const spin = pool.age[i] * pool.spin[i];
+      dummy.position.set(pool.position[i * 3], pool.position[i * 3 + 1], pool.position[i * 3 + 2]);
+      dummy.rotation.set(spin, spin * 0.7, spin * 0.3);
+      // Hold full size, then shrink away over the last stretch
+      dummy.scale.setScalar(pool.size[i] * Math.min(1, (1 - t) * 3));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    // Particles fly anywhere, so the pool's bounds would always be stale
+    <instancedMesh key={capacity} ref={meshRef} args={[undefined, undefined, capacity]} frustumCulled={false}>
+      <planeGeometry args={[1, 1]} />
+      <meshBasicMaterial toneMapped={false} side={THREE.DoubleSide} />
+    </instancedMesh>
+  );
+};
+
+export default ParticleEffects;
@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { Images, Upload, ChevronUp, ChevronDown, Trash2, X, FileText, AlertTriangle } from 'lucide-react';
+import { PhotoLibrary } from '../hooks/usePhotoLibrary';
+import { useThumbnail } from '../hooks/useThumbnail';
+import { FrameStyle, PhotoData } from '../types';
+import { FRAME_STYLES } from './FrameStyles';
+
+// List previews share the spiral's smallest thumbnails instead of decoding full images
+const LIST_THUMBNAIL_SIZE = 128;
+
+const PhotoThumb: React.FC<{ photo: PhotoData }> = ({ photo }) => {
+  const url = useThumbnail(photo, LIST_THUMBNAIL_SIZE);
+  return url
+    ? <img src={url} alt="" className="w-10 h-10 object-cover rounded border border-white/20" />
+    : <div className="w-10 h-10 rounded border border-white/20" style={{ backgroundColor: photo.color }} />;
+};
+
+interface PhotoManagerProps {
+  library: PhotoLibrary;
+}
+
+const PhotoManager: React.FC<PhotoManagerProps> = ({ library }) => {
+  const { photos, isCustom, hasImportedManifest, manifestError, upload, remove, move, setFrameStyle, removeManifest } = library;
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      upload(Array.from(e.target.files)).catch(err => console.error("Failed to store photos:", err));
+    }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="absolute top-4 right-4 z-30 flex flex-col items-end gap-2">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 text-[#FFD700] p-3 rounded-full hover:bg-white/5 transition-all"
+        title="Photos"
+      >
+        {isOpen ? <X size={18} /> : <Images size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 px-4 py-4 rounded-2xl w-64 shadow-[0_0_50px_rgba(0,0,0,0.8)]">
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center justify-center gap-2 w-full p-2 rounded-lg border border-[#FFD700]/50 text-[#FFD700] hover:bg-white/5 transition-all"
+          >
+            <Upload size={14} />
+            <span className="text-[10px] tracking-widest font-serif font-bold">ADD PHOTOS</span>
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*,video/*,application/json,.json"
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+          />
+          <p className="text-[9px] text-[#e0e0e0]/60 tracking-wider font-serif mt-2 text-center">
+            OR DROP PHOTOS, CLIPS AND A MANIFEST ONTO THE TREE
+          </p>
+
+          {manifestError && (
+            <div className="mt-3 p-2 rounded-lg border border-red-400/50 bg-red-950/40 text-red-300 text-[10px] font-serif">
+              <div className="flex items-center gap-1 font-bold mb-1">
+                <AlertTriangle size={12} /> {manifestError.issues.length > 0 ? 'Manifest rejected' : manifestError.message}
+              </div>
+              {manifestError.issues.length > 0 && (
+                <ul className="list-disc pl-4 max-h-24 overflow-y-auto">
+                  {manifestError.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {hasImportedManifest && (
+            <div className="mt-3 flex items-center gap-2 text-[10px] text-[#e0e0e0] font-serif">
+              <FileText size={12} className="text-[#FFD700]" />
+              <span className="flex-1">Manifest imported</span>
+              <button
+                onClick={() => removeManifest()}
+                className="text-red-400 hover:scale-110 transition-transform"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          )}
+
+          {isCustom ? (
+            <ul className="mt-3 flex flex-col gap-2 max-h-80 overflow-y-auto">
+              {photos.map((photo, index) => (
+                <li key={photo.id} className="flex items-center gap-2">
+                  <PhotoThumb photo={photo} />
+                  <div className="flex-1 min-w-0 flex flex-col">
+                    <span className="text-[10px] text-[#e0e0e0] font-serif truncate">{photo.caption ?? `#${index + 1}`}</span>
+                    <select
+                      value={photo.frameStyle ?? ''}
+                      onChange={(e) => setFrameStyle(photo.id, (e.target.value || undefined) as FrameStyle | undefined)}
+                      className="bg-transparent text-[9px] text-[#FFD700]/80 tracking-wider font-serif outline-none"
+                    >
+                      <option value="" className="bg-black">Tree default</option>
+                      {Object.values(FRAME_STYLES).map(style => (
+                        <option key={style.id} value={style.id} className="bg-black">{style.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => move(photo.id, -1)}
+                    disabled={index === 0}
+                    className="text-[#FFD700] disabled:opacity-20 hover:scale-110 transition-transform"
+                  >
+                    <ChevronUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => move(photo.id, 1)}
+                    disabled={index === photos.length - 1}
+                    className="text-[#FFD700] disabled:opacity-20 hover:scale-110 transition-transform"
+                  >
+                    <ChevronDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => remove(photo.id)}
+                    className="text-red-400 hover:scale-110 transition-transform"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-[10px] text-[#e0e0e0]/80 font-serif mt-3 text-center">
+              Showing the default photos.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoManager;
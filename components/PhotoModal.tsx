@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, Image as ImageIcon, ChevronLeft, ChevronRight, Play, Pause } from 'lucide-react';
+import { useDrag } from '@use-gesture/react';
+import { PhotoData } from '../types';
+
+interface PhotoModalProps {
+  photos: PhotoData[];
+  activeIndex: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+const SLIDESHOW_INTERVALS = [3, 5, 8, 12]; // Seconds
+const CROSSFADE_MS = 800;
+
+// Manifest metadata written under the polaroid
+const PhotoCaption: React.FC<{ photo: PhotoData }> = ({ photo }) => {
+  const details = [
+      photo.date && new Date(photo.date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }),
+      photo.location,
+  ].filter(Boolean);
+
+  if (!photo.caption && details.length === 0 && !photo.credit) return null;
+
+  return (
+      <div className="text-center text-gray-800 font-serif px-2 pb-1">
+          {photo.caption && <p className="text-lg leading-snug">{photo.caption}</p>}
+          {details.length > 0 && (
+              <p className="text-xs text-gray-500 tracking-wider mt-1">{details.join(' · ')}</p>
+          )}
+          {photo.credit && <p className="text-[10px] text-gray-400 italic mt-1">Photo: {photo.credit}</p>}
+      </div>
+  );
+};
+
+// The picture area of the polaroid (still or clip), with its own error fallback
+const PhotoImage: React.FC<{ photo: PhotoData, className?: string, style?: React.CSSProperties, onAnimationEnd?: () => void }> = ({ photo, className = '', style, onAnimationEnd }) => {
+  const [imgError, setImgError] = useState(false);
+
+  return (
+      <div className={`absolute inset-0 ${className}`} style={style} onAnimationEnd={onAnimationEnd}>
+          {photo.videoUrl && !imgError ? (
+              // Clips play with sound here; the frame on the tree stays muted
+              <video
+                src={photo.videoUrl}
+                poster={photo.url}
+                className="w-full h-full object-cover"
+                autoPlay
+                loop
+                playsInline
+                onError={() => setImgError(true)}
+              />
+          ) : photo.url && !imgError ? (
+              <img
+                src={photo.url}
+                alt={photo.caption ?? "Memory"}
+                className="w-full h-full object-cover"
+                draggable={false}
+                onError={() => setImgError(true)}
+              />
+          ) : (
+              <>
+                <div className="absolute inset-0" style={{ backgroundColor: photo.color }} />
+                <div className="absolute inset-0 flex items-center justify-center opacity-20">
+                    <ImageIcon size={64} />
+                </div>
+              </>
+          )}
+      </div>
+  );
+};
+
+const PhotoModal: React.FC<PhotoModalProps> = ({ photos, activeIndex, onNavigate, onClose }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [intervalSec, setIntervalSec] = useState(SLIDESHOW_INTERVALS[1]);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  const photo = photos[activeIndex];
+  const count = photos.length;
+
+  // Keep the outgoing photo around for the crossfade (derived during render so there is no unfaded frame)
+  const [shown, setShown] = useState<PhotoData | undefined>(photo);
+  const [previous, setPrevious] = useState<PhotoData | null>(null);
+  if (photo && shown && photo.id !== shown.id) {
+      setPrevious(shown);
+      setShown(photo);
+  }
+
+  const goTo = useCallback((offset: number) => {
+      if (count === 0) return;
+      onNavigate((activeIndex + offset + count) % count);
+  }, [activeIndex, count, onNavigate]);
+
+  // Keyboard navigation
+  useEffect(() => {
+      const handleKey = (e: KeyboardEvent) => {
+          if (e.key === 'ArrowRight') goTo(1);
+          else if (e.key === 'ArrowLeft') goTo(-1);
+          else if (e.key === 'Escape') onClose();
+          else if (e.key === ' ') {
+              e.preventDefault();
+              setIsPlaying(p => !p);
+          }
+      };
+      window.addEventListener('keydown', handleKey);
+      return () => window.removeEventListener('keydown', handleKey);
+  }, [goTo, onClose]);
+
+  // Slideshow autoplay. Restarts the timer whenever the photo changes, so manual navigation gets a full interval.
+  useEffect(() => {
+      if (!isPlaying || count < 2) return;
+      const timer = window.setTimeout(() => goTo(1), intervalSec * 1000);
+      return () => window.clearTimeout(timer);
+  }, [isPlaying, intervalSec, activeIndex, count, goTo]);
+
+  // Swipe left/right on the polaroid
+  useDrag(({ swipe: [swipeX] }) => {
+      if (swipeX !== 0) goTo(-swipeX);
+  }, {
+      target: cardRef,
+      axis: 'x',
+      filterTaps: true,
+  });
+
+  if (!photo) return null;
+
+  return (
+      <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+          <div
+            ref={cardRef}
+            className="relative bg-white p-4 max-w-sm w-full shadow-2xl rotate-1 transform transition-colors duration-700"
+            style={photo.frameColor ? { backgroundColor: photo.frameColor } : undefined}
+            onClick={(e) => e.stopPropagation()}
+          >
+              <div className="aspect-[4/5] w-full bg-gray-200 mb-4 overflow-hidden relative">
+                  {previous && (
+                      <PhotoImage key={`prev-${previous.id}`} photo={previous} />
+                  )}
+                  <PhotoImage
+                    key={photo.id}
+                    photo={photo}
+                    className={previous ? "photo-crossfade" : ""}
+                    style={{ animationDuration: `${CROSSFADE_MS}ms` }}
+                    onAnimationEnd={() => setPrevious(null)}
+                  />
+              </div>
+
+              <PhotoCaption photo={photo} />
+
+              <button
+                onClick={onClose}
+                className="absolute -top-4 -right-4 bg-black text-[#FFD700] rounded-full p-2 border border-[#FFD700] hover:scale-110 transition-transform"
+              >
+                  <X size={20} />
+              </button>
+          </div>
+
+          {count > 1 && (
+              <>
+                <button
+                    onClick={(e) => { e.stopPropagation(); goTo(-1); }}
+                    className="absolute left-4 md:left-12 top-1/2 -translate-y-1/2 bg-black/60 text-[#FFD700] rounded-full p-3 border border-[#FFD700]/50 hover:scale-110 transition-transform"
+                >
+                    <ChevronLeft size={24} />
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); goTo(1); }}
+                    className="absolute right-4 md:right-12 top-1/2 -translate-y-1/2 bg-black/60 text-[#FFD700] rounded-full p-3 border border-[#FFD700]/50 hover:scale-110 transition-transform"
+                >
+                    <ChevronRight size={24} />
+                </button>
+
+                {/* Slideshow Controls */}
+                <div
+                    className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-4 backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 px-5 py-2 rounded-full"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <button
+                        onClick={() => setIsPlaying(p => !p)}
+                        className="text-[#FFD700] hover:scale-110 transition-transform"
+                    >
+                        {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+                    </button>
+                    <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">
+                        {activeIndex + 1} / {count}
+                    </span>
+                    <select
+                        value={intervalSec}
+                        onChange={(e) => setIntervalSec(parseInt(e.target.value, 10))}
+                        className="bg-transparent text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+                    >
+                        {SLIDESHOW_INTERVALS.map(sec => (
+                            <option key={sec} value={sec} className="bg-black">{sec}s</option>
+                        ))}
+                    </select>
+                </div>
+              </>
+          )}
+      </div>
+  );
+};
+
+export default PhotoModal;
@@ -1,17 +1,30 @@
 
-import React, { useMemo, useState, Suspense } from 'react';
+import React, { useMemo, useState, useEffect, useRef, Suspense } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
-import { Text, Image as DreiImage } from '@react-three/drei';
-import { PhotoData, TreeMode } from '../types';
+import { Text, useTexture } from '@react-three/drei';
+import { FrameStyle, PhotoData, PhotoLayoutId, TreeMode } from '../types';
+import { FRAME_STYLES, PhotoShape } from './FrameStyles';
+import { getPhotoLayout } from '../utils/photoLayouts';
+import { createStream } from '../utils/random';
+import { useThumbnail } from '../hooks/useThumbnail';
+import { thumbnailSizeFor } from '../utils/thumbnails';
+import { acquireVideoSlot, releaseVideoSlot } from '../utils/videoPlayback';
+import { EffectQueue, emitEffect } from '../utils/particleEffects';
 
 interface PhotoSpiralProps {
   radius: number;
   height: number;
   turns: number;
-  photoCount: number;
+  photos: PhotoData[];
+  layout: PhotoLayoutId;
+  frameStyle: FrameStyle;
+  seed: number;
   mode: TreeMode;
+  railColor: THREE.Color; // Live theme color, copied every frame
   onPhotoClick: (photo: PhotoData) => void;
+  onLayout?: (positions: Map<number, THREE.Vector3>) => void; // Formed position of each photo, by id
+  effects: EffectQueue; // Sparks fly off the rail's leading end while it draws in
 }
 
 // Error Boundary for individual images
@@ -65,67 +78,40 @@ const RailMaterial = new THREE.ShaderMaterial({
   side: THREE.DoubleSide
 });
 
-const PhotoSpiral: React.FC<PhotoSpiralProps> = ({ radius, height, turns, photoCount, mode, onPhotoClick }) => {
-  // --- CURVE GENERATION ---
-  const curve = useMemo(() => {
-    const points = [];
-    const steps = 300;
-    for (let i = 0; i <= steps; i++) {
-      const t = i / steps;
-      const currentRadius = radius * (1 - t * 0.8) + 0.5; 
-      const currentHeight = (t * height) - (height / 2) + 0.5;
-      const angle = t * Math.PI * 2 * turns;
-      points.push(new THREE.Vector3(Math.cos(angle) * currentRadius, currentHeight, Math.sin(angle) * currentRadius));
-    }
-    return new THREE.CatmullRomCurve3(points);
-  }, [radius, height, turns]);
+// Rail progress over which the drawing-in end sparks
+const SPARK_FROM = 0.01;
+const SPARK_TO = 0.97;
+
+const PhotoSpiral: React.FC<PhotoSpiralProps> = ({ radius, height, turns, photos, layout, frameStyle, seed, mode, railColor, onPhotoClick, onLayout, effects }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const sparkPos = useMemo(() => new THREE.Vector3(), []);
+
+  // --- LAYOUT ---
+  const { placements, rails } = useMemo(() => {
+    const random = createStream(seed, `photos:${layout}`);
+    return getPhotoLayout(layout).build({ radius, height, turns, photos, random });
+  }, [layout, radius, height, turns, photos, seed]);
 
   // --- PHOTO DATA ---
   const photoItems = useMemo(() => {
-    const items = [];
-    for (let i = 0; i < photoCount; i++) {
-      const t = 0.1 + (i / (photoCount - 1)) * 0.8; 
-      const point = curve.getPointAt(t);
-      const tangent = curve.getTangentAt(t).normalize();
-      
-      const centerAxisPoint = new THREE.Vector3(0, point.y, 0);
-      const normal = new THREE.Vector3().subVectors(point, centerAxisPoint).normalize();
-      
-      const offsetDistance = 0.035; 
-      const targetPos = point.clone().add(normal.clone().multiplyScalar(offsetDistance));
-      
-      const lookAtPos = targetPos.clone().add(normal);
-      const dummyObj = new THREE.Object3D();
-      dummyObj.position.copy(targetPos);
-      dummyObj.lookAt(lookAtPos);
-      
-      const chaosPos = new THREE.Vector3(
-        (Math.random() - 0.5) * 20,
-        (Math.random() - 0.5) * 20 + 5,
-        (Math.random() - 0.5) * 20
-      );
+    return placements.map((placement, i) => ({
+        ...placement,
+        photo: photos[i],
+        id: photos[i].id,
+        url: photos[i].url,
+        color: photos[i].color
+    }));
+  }, [placements, photos]);
 
-      const chaosRot = new THREE.Euler(
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
-        Math.random() * Math.PI
-      );
+  // Frames only ever load downscaled thumbnails; the full image is left for the modal
+  const thumbnailSize = thumbnailSizeFor(photos.length);
 
-      items.push({ 
-          targetPos, 
-          chaosPos,
-          targetRot: dummyObj.quaternion.clone(),
-          chaosRot,
-          railPos: point,
-          id: i,
-          url: `/photos/${i + 1}.jpg`, 
-          color: `hsl(${35 + Math.random() * 15}, 80%, ${40 + Math.random() * 20}%)`
-      });
-    }
-    return items;
-  }, [curve, photoCount]);
+  useEffect(() => {
+      onLayout?.(new Map(photoItems.map(item => [item.id, item.targetPos])));
+  }, [photoItems, onLayout]);
 
   useFrame((state, delta) => {
+      RailMaterial.uniforms.uColor.value.copy(railColor);
       const targetProgress = mode === TreeMode.FORMED ? 1.0 : 0.0;
       const speed = 2.5; 
       RailMaterial.uniforms.uProgress.value = THREE.MathUtils.lerp(
@@ -133,38 +119,170 @@ const PhotoSpiral: React.FC<PhotoSpiralProps> = ({ radius, height, turns, photoC
           targetProgress,
           delta * speed
       );
+
+      // The tube's u runs by arc length, so getPointAt lands on the visible end
+      const progress = RailMaterial.uniforms.uProgress.value;
+      if (mode === TreeMode.FORMED && progress > SPARK_FROM && progress < SPARK_TO && groupRef.current) {
+          rails.forEach(rail => {
+              rail.curve.getPointAt(progress, sparkPos);
+              groupRef.current!.localToWorld(sparkPos);
+              emitEffect(effects, { preset: 'trail', position: sparkPos });
+          });
+      }
   });
 
   return (
-    <group>
-      <mesh>
-        <tubeGeometry args={[curve, 300, 0.015, 8, false]} />
-        <primitive object={RailMaterial} attach="material" />
-      </mesh>
+    <group ref={groupRef}>
+      {rails.map((rail, i) => (
+        <mesh key={i}>
+          <tubeGeometry args={[rail.curve, 300, 0.015, 8, rail.closed]} />
+          <primitive object={RailMaterial} attach="material" />
+        </mesh>
+      ))}
 
       {photoItems.map((item) => (
         <PhotoFrame 
             key={item.id} 
             item={item} 
             mode={mode}
-            onClick={() => onPhotoClick({ id: item.id, color: item.color, url: item.url })} 
+            frameStyle={item.photo.frameStyle ?? frameStyle}
+            thumbnailSize={thumbnailSize}
+            onClick={() => onPhotoClick(item.photo)} 
         />
       ))}
     </group>
   );
 };
 
-const PhotoFrame: React.FC<{ item: any, mode: TreeMode, onClick: () => void }> = ({ item, mode, onClick }) => {
+// Photo content is drawn at unit size; the frame style scales and places it
+const PhotoGeometry: React.FC<{ shape: PhotoShape }> = ({ shape }) => {
+  return shape === 'circle'
+    ? <circleGeometry args={[0.5, 48]} />
+    : <planeGeometry args={[1, 1]} />;
+};
+
+// Center-crop a texture to a square, like object-fit: cover
+const coverCrop = (texture: THREE.Texture, width: number, height: number) => {
+  if (!width || !height) return;
+  texture.repeat.set(Math.min(1, height / width), Math.min(1, width / height));
+  texture.offset.set((1 - texture.repeat.x) / 2, (1 - texture.repeat.y) / 2);
+};
+
+// Still photo (thumbnail or poster). Suspends while loading.
+const PhotoSurface: React.FC<{ url: string, shape: PhotoShape }> = ({ url, shape }) => {
+  const texture = useTexture(url);
+  useMemo(() => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+    // Thumbnails are square already; this only matters for full-size fallbacks
+    const image = texture.image as { width: number, height: number };
+    coverCrop(texture, image.width, image.height);
+  }, [texture]);
+
+  return (
+    <mesh>
+      <PhotoGeometry shape={shape} />
+      <meshBasicMaterial map={texture} toneMapped={false} />
+    </mesh>
+  );
+};
+
+// Scratch objects for the per-frame visibility test
+const _projScreen = new THREE.Matrix4();
+const _frustum = new THREE.Frustum();
+const _worldPos = new THREE.Vector3();
+const _worldNormal = new THREE.Vector3();
+const _toCamera = new THREE.Vector3();
+
+// Muted, looping clip drawn over the photo area. Only decodes while the frame
+// faces the camera, the tree is FORMED and a playback slot is free; until the
+// first frame arrives the poster underneath shows through.
+const FrameVideo: React.FC<{ url: string, shape: PhotoShape, mode: TreeMode, autoplay: boolean, hovered: boolean }> = ({ url, shape, mode, autoplay, hovered }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const owner = useMemo(() => ({}), []);
+  const [hasFrame, setHasFrame] = useState(false);
+
+  const video = useMemo(() => {
+    const v = document.createElement('video');
+    v.muted = true;
+    v.loop = true;
+    v.playsInline = true;
+    v.crossOrigin = 'anonymous';
+    v.preload = 'none'; // Nothing is fetched or decoded until the first play
+    return v;
+  }, []);
+
+  const texture = useMemo(() => {
+    const t = new THREE.VideoTexture(video);
+    t.colorSpace = THREE.SRGBColorSpace;
+    return t;
+  }, [video]);
+
+  useEffect(() => {
+    setHasFrame(false);
+    // Crop to a centered square like the thumbnails
+    const handleMetadata = () => coverCrop(texture, video.videoWidth, video.videoHeight);
+    const handleData = () => setHasFrame(true);
+    video.addEventListener('loadedmetadata', handleMetadata);
+    video.addEventListener('loadeddata', handleData);
+    video.src = url;
+
+    return () => {
+      video.removeEventListener('loadedmetadata', handleMetadata);
+      video.removeEventListener('loadeddata', handleData);
+      video.pause();
+      releaseVideoSlot(owner);
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, [url, video, texture, owner]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const cam = state.camera;
+    _projScreen.multiplyMatrices(cam.projectionMatrix, cam.matrixWorldInverse);
+    _frustum.setFromProjectionMatrix(_projScreen);
+    mesh.getWorldPosition(_worldPos);
+    mesh.getWorldDirection(_worldNormal);
+    _toCamera.subVectors(cam.position, _worldPos);
+    const inView = _frustum.containsPoint(_worldPos) && _worldNormal.dot(_toCamera) > 0;
+
+    const shouldPlay = inView && mode === TreeMode.FORMED && (autoplay || hovered);
+    if (shouldPlay && video.paused) {
+      if (acquireVideoSlot(owner)) {
+        video.play().catch(() => releaseVideoSlot(owner));
+      }
+    } else if (!shouldPlay && !video.paused) {
+      video.pause();
+      releaseVideoSlot(owner);
+    }
+  });
+
+  return (
+    <mesh ref={meshRef} position={[0, 0, 0.001]} visible={hasFrame}>
+      <PhotoGeometry shape={shape} />
+      <meshBasicMaterial map={texture} toneMapped={false} />
+    </mesh>
+  );
+};
+
+const PhotoFrame: React.FC<{ item: any, mode: TreeMode, frameStyle: FrameStyle, thumbnailSize: number, onClick: () => void }> = ({ item, mode, frameStyle, thumbnailSize, onClick }) => {
   const groupRef = React.useRef<THREE.Group>(null);
+  const thumbnailUrl = useThumbnail(item.photo, thumbnailSize);
   const [hovered, setHovered] = useState(false);
   const currentPos = React.useRef(item.chaosPos.clone()); 
+  const style = FRAME_STYLES[frameStyle] ?? FRAME_STYLES[FrameStyle.POLAROID];
+  const { shape } = style.photo;
   
   // Fallback visual
   const fallbackMesh = (
-      <mesh position={[0, 0.15, 0.016]}>
-          <planeGeometry args={[1.275, 1.275]} />
+      <mesh position={[0, 0, -0.001]}>
+          <PhotoGeometry shape={shape} />
           <meshStandardMaterial color={item.color} roughness={0.3} />
-          <Text position={[0,0,0.01]} fontSize={0.1} color="white">
+          <Text position={[0,0,0.01]} fontSize={0.08} color="white">
             LOADING
           </Text>
       </mesh>
@@ -198,35 +316,33 @@ const PhotoFrame: React.FC<{ item: any, mode: TreeMode, onClick: () => void }> =
             onPointerOver={() => setHovered(true)}
             onPointerOut={() => setHovered(false)}
         >
-            {/* Polaroid Body */}
-            <mesh castShadow receiveShadow>
-                <boxGeometry args={[1.5, 1.875, 0.03]} />
-                <meshStandardMaterial color="#FAFAFA" roughness={0.5} />
-            </mesh>
+            {/* Frame Body */}
+            <style.Body frameColor={item.photo.frameColor} />
             
-            {/* Photo Area with Suspense and Error Boundary */}
-            {item.url ? (
-                <SingleImageErrorBoundary src={item.url} fallback={fallbackMesh}>
-                    <Suspense fallback={fallbackMesh}>
-                         <DreiImage 
-                            url={item.url}
-                            position={[0, 0.15, 0.017]} 
-                            scale={[1.275, 1.275]}
-                            toneMapped={false}
-                            transparent={false} // Force opaque for JPGs
-                        />
-                    </Suspense>
-                </SingleImageErrorBoundary>
-            ) : fallbackMesh}
-
-            {/* Back Plate */}
-            <mesh position={[0, 0, -0.016]}>
-                <planeGeometry args={[1.5, 1.875]} />
-                <meshStandardMaterial color="#DDDDDD" roughness={0.8} />
-            </mesh>
+            {/* Photo Area, placed by the frame style */}
+            <group position={style.photo.position} scale={style.photo.size}>
+                {thumbnailUrl ? (
+                    <SingleImageErrorBoundary key={thumbnailUrl} src={thumbnailUrl} fallback={fallbackMesh}>
+                        <Suspense fallback={fallbackMesh}>
+                            <PhotoSurface url={thumbnailUrl} shape={shape} />
+                        </Suspense>
+                    </SingleImageErrorBoundary>
+                ) : fallbackMesh}
+
+                {/* Clip or Live Photo motion. Live photos play on hover, like pressing one on a phone. */}
+                {item.photo.videoUrl && (
+                    <FrameVideo
+                        url={item.photo.videoUrl}
+                        shape={shape}
+                        mode={mode}
+                        autoplay={!item.photo.url}
+                        hovered={hovered}
+                    />
+                )}
+            </group>
         </group>
 
-        {mode === TreeMode.FORMED && (
+        {mode === TreeMode.FORMED && item.railPos && (
              <group position={item.railPos} quaternion={item.targetRot}>
                 <mesh>
                     <torusGeometry args={[0.04, 0.01, 8, 16, Math.PI]} /> 
@@ -1,17 +1,40 @@
 
-import React, { useRef } from 'react';
+import React, { useRef, useMemo, useState, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Environment, ContactShadows, Stars } from '@react-three/drei';
+import { OrbitControls, Environment, ContactShadows, Stars, PerformanceMonitor } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
+import type { BloomEffect, VignetteEffect } from 'postprocessing';
 import * as THREE from 'three';
 import LuxuryTree from './LuxuryTree';
 import GoldDust from './GoldDust';
-import { TreeState, PhotoData } from '../types';
+import Snowfall from './Snowfall';
+import ParticleEffects from './ParticleEffects';
+import { TreeState, TreeConfig, PhotoData, GesturePointer, TrackedHand, OrnamentDetails, CustomOrnament, GiftTag } from '../types';
+import { DecorEditor } from './HandPlacedOrnaments';
+import { LiveTheme, getTheme, resolveTheme, cloneLiveTheme, stepLiveTheme } from '../utils/themes';
+import { QualityTier } from '../utils/quality';
+import { createEffectQueue } from '../utils/particleEffects';
+import { saveScreenshot } from '../utils/screenshot';
 
 interface SceneProps {
   treeState: TreeState;
+  treeConfig: TreeConfig;
   physicsRef: React.MutableRefObject<{ isInteracting: boolean, delta: number, velocity: number, zoomDelta: number }>;
+  photos: PhotoData[];
+  focusedPhotoId: number | null;
+  gesturePointer: React.MutableRefObject<GesturePointer>;
+  trackedHand: React.MutableRefObject<TrackedHand>;
+  quality: QualityTier;
+  onQualityStep?: (direction: 1 | -1) => void; // Set while the governor picks the tier
   onPhotoClick: (photo: PhotoData) => void;
+  onOrnamentDetails: (details: OrnamentDetails) => void;
+  customOrnaments: CustomOrnament[];
+  decorEditor: DecorEditor | null; // Set while decorating
+  giftTags: Record<number, GiftTag>;
+  openGift: number | null;
+  onGiftOpen: (index: number) => void;
+  customTopper: THREE.Object3D | null;
+  onScreenshotDone?: () => void; // Set while a screenshot is wanted; saves the next frame
 }
 
 // Helper component to handle physics updates inside Canvas context
@@ -39,64 +62,238 @@ const PhysicsHandler: React.FC<{ physicsRef: SceneProps['physicsRef'] }> = ({ ph
     return null;
 }
 
-const Scene: React.FC<SceneProps> = ({ treeState, physicsRef, onPhotoClick }) => {
+// Small ring floating in front of the camera where the tracked fingertip points.
+// Fills in while pinching.
+const GestureCursor: React.FC<{ pointer: SceneProps['gesturePointer'] }> = ({ pointer }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    const point = useMemo(() => new THREE.Vector3(), []);
+
+    useFrame((state, delta) => {
+        const mesh = ref.current;
+        if (!mesh) return;
+        const { active, x, y, pressed } = pointer.current;
+        mesh.visible = active;
+        if (!active) return;
+        // A fixed distance along the pointing ray
+        point.set(x, y, 0.5).unproject(state.camera).sub(state.camera.position).normalize();
+        mesh.position.copy(state.camera.position).addScaledVector(point, 6);
+        mesh.quaternion.copy(state.camera.quaternion);
+        mesh.scale.setScalar(THREE.MathUtils.lerp(mesh.scale.x, pressed ? 0.6 : 1, Math.min(1, delta * 15)));
+    });
+
+    return (
+        <mesh ref={ref} visible={false} renderOrder={10}>
+            <ringGeometry args={[0.07, 0.1, 32]} />
+            <meshBasicMaterial color="#FFD700" transparent opacity={0.9} depthTest={false} toneMapped={false} />
+        </mesh>
+    );
+}
+
+// Eases the live theme toward the selected one. Everything themed reads from
+// `live` in its own frame loop, so a switch is a blend rather than a rebuild.
+const ThemeAnimator: React.FC<{ live: LiveTheme; target: LiveTheme }> = ({ live, target }) => {
+    useFrame((state, delta) => {
+        stepLiveTheme(live, target, 1 - Math.exp(-delta * 2.5));
+    });
+    return null;
+}
+
+const ThemedLights: React.FC<{ theme: LiveTheme; shadowMapSize: number }> = ({ theme, shadowMapSize }) => {
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const keyRef = useRef<THREE.SpotLight>(null);
+  const fillRef = useRef<THREE.PointLight>(null);
+  const rimRef = useRef<THREE.PointLight>(null);
+
+  // A resized shadow map only takes effect once the old one is dropped
+  useEffect(() => {
+    const light = keyRef.current;
+    if (!light || shadowMapSize === 0) return;
+    light.shadow.mapSize.set(shadowMapSize, shadowMapSize);
+    light.shadow.map?.dispose();
+    light.shadow.map = null;
+  }, [shadowMapSize]);
+
+  useFrame(() => {
+    ambientRef.current?.color.copy(theme.ambient);
+    keyRef.current?.color.copy(theme.key);
+    fillRef.current?.color.copy(theme.fill);
+    rimRef.current?.color.copy(theme.rim);
+  });
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={0.5} color="#cceeff" />
+      <spotLight 
+        ref={keyRef}
+        position={[10, 20, 10]} 
+        angle={0.25} 
+        penumbra={1} 
+        intensity={200} 
+        castShadow={shadowMapSize > 0}
+        shadow-bias={-0.0001}
+        color="#fff0d0" 
+      />
+      <pointLight ref={fillRef} position={[-5, 2, 5]} intensity={50} color="#FFD700" distance={15} />
+      <pointLight ref={rimRef} position={[5, -2, -5]} intensity={30} color="#ff4400" distance={15} />
+    </>
+  );
+}
+
+const ThemedEffects: React.FC<{ theme: LiveTheme; quality: QualityTier }> = ({ theme, quality }) => {
+  const bloomRef = useRef<BloomEffect>(null);
+  const vignetteRef = useRef<VignetteEffect>(null);
+
+  useFrame(() => {
+    if (bloomRef.current) {
+      bloomRef.current.intensity = theme.bloomIntensity;
+      bloomRef.current.luminanceMaterial.threshold = theme.bloomThreshold;
+    }
+    if (vignetteRef.current) {
+      vignetteRef.current.offset = theme.vignetteOffset;
+      vignetteRef.current.darkness = theme.vignetteDarkness;
+    }
+  });
+
+  if (!quality.bloom && !quality.vignette && !quality.noise) return null;
+
+  return (
+    <EffectComposer disableNormalPass>
+      {quality.bloom && (
+        <Bloom 
+            ref={bloomRef}
+            luminanceThreshold={0.85} 
+            mipmapBlur 
+            intensity={1.5} 
+            radius={0.4}
+        />
+      )}
+      {quality.vignette && <Vignette ref={vignetteRef} eskil={false} offset={0.1} darkness={0.5} />}
+      {quality.noise && <Noise opacity={0.015} />}
+    </EffectComposer>
+  );
+}
+
+// Mounted for a single frame to save a screenshot. Runs after the effect
+// composer (render priority 1), while the finished frame is still in the
+// drawing buffer; without a composer it draws the frame itself.
+const ScreenshotCapture: React.FC<{ renderFirst: boolean; onDone: () => void }> = ({ renderFirst, onDone }) => {
+  const done = useRef(false);
+
+  useFrame(({ gl, scene, camera }) => {
+    if (done.current) return;
+    done.current = true;
+    if (renderFirst) gl.render(scene, camera);
+    saveScreenshot(gl.domElement);
+    onDone();
+  }, 2);
+
+  return null;
+};
+
+const Scene: React.FC<SceneProps> = ({ treeState, treeConfig, physicsRef, photos, focusedPhotoId, gesturePointer, trackedHand, quality, onQualityStep, onPhotoClick, onOrnamentDetails, customOrnaments, decorEditor, giftTags, openGift, onGiftOpen, customTopper, onScreenshotDone }) => {
+  const themeTarget = useMemo(
+    () => resolveTheme(getTheme(treeState.theme), treeConfig.palette),
+    [treeState.theme, treeConfig.palette]
+  );
+  // Starts on the initial theme; only ever eased afterwards
+  const [liveTheme] = useState(() => cloneLiveTheme(themeTarget));
+  // Settled snow, built up by Snowfall and read by the foliage frost
+  const snowCover = useRef(0);
+  // Effects queued by the tree, drawn by ParticleEffects
+  const [effects] = useState(() => createEffectQueue());
+
+  // The tier thins out the foliage without touching the saved config
+  const renderConfig = useMemo(() => ({
+    ...treeConfig,
+    foliageCount: Math.max(500, Math.round(treeConfig.foliageCount * quality.foliageScale)),
+  }), [treeConfig, quality.foliageScale]);
+
   return (
     <Canvas
       shadows
+      dpr={quality.dpr}
       camera={{ position: [0, 4, 18], fov: 42 }} 
       gl={{ antialias: false, toneMappingExposure: 1.2 }} 
     >
+      {/* Quality governor: steps a tier down on sustained low frame rate, up on headroom.
+          Gives up after a few flip-flops so it doesn't oscillate between two tiers. */}
+      {onQualityStep && (
+        <PerformanceMonitor
+          flipflops={3}
+          onIncline={() => onQualityStep(1)}
+          onDecline={() => onQualityStep(-1)}
+        />
+      )}
       <PhysicsHandler physicsRef={physicsRef} />
+      <GestureCursor pointer={gesturePointer} />
+      <ThemeAnimator live={liveTheme} target={themeTarget} />
 
       <Environment preset="city" blur={0.8} background={false} />
       
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={0.5} />
+      <Stars radius={100} depth={50} count={Math.round(5000 * quality.particleScale)} factor={4} saturation={0} fade speed={0.5} />
 
-      <ambientLight intensity={0.5} color="#cceeff" />
-      <spotLight 
-        position={[10, 20, 10]} 
-        angle={0.25} 
-        penumbra={1} 
-        intensity={200} 
-        castShadow 
-        shadow-bias={-0.0001}
-        color="#fff0d0" 
-      />
-      <pointLight position={[-5, 2, 5]} intensity={50} color="#FFD700" distance={15} />
-      <pointLight position={[5, -2, -5]} intensity={30} color="#ff4400" distance={15} />
+      <ThemedLights theme={liveTheme} shadowMapSize={quality.shadowMapSize} />
 
       {/* Main Object */}
       <LuxuryTree 
         treeState={treeState}
+        config={renderConfig}
         physicsState={physicsRef}
+        photos={photos}
+        focusedPhotoId={focusedPhotoId}
+        theme={liveTheme}
+        gesturePointer={gesturePointer}
         onPhotoClick={onPhotoClick}
+        onOrnamentDetails={onOrnamentDetails}
+        customOrnaments={customOrnaments}
+        decorEditor={decorEditor}
+        frostCover={treeState.showSnow && treeState.snowSparkle ? snowCover : null}
+        giftTags={giftTags}
+        openGift={openGift}
+        onGiftOpen={onGiftOpen}
+        customTopper={customTopper}
+        effects={effects}
       />
 
       {/* Effects */}
-      {treeState.showGoldDust && <GoldDust />}
-
-      <ContactShadows 
-        resolution={1024} 
-        scale={30} 
-        blur={2} 
-        opacity={0.5} 
-        far={10} 
-        color="#000000" 
-      />
+      <ParticleEffects queue={effects} capacity={Math.round(1500 * quality.particleScale)} scale={quality.particleScale} />
+      {treeState.showGoldDust && <GoldDust seed={treeState.seed} count={Math.round(800 * quality.particleScale)} color={liveTheme.dust} emissive={liveTheme.dustEmissive} hand={trackedHand} />}
+
+      {treeState.showSnow && (
+        <Snowfall
+          seed={treeState.seed}
+          count={Math.round(3000 * quality.particleScale)}
+          intensity={treeState.snowIntensity}
+          wind={treeState.snowWind}
+          groundY={-renderConfig.height / 2 - 1.5}
+          physicsRef={physicsRef}
+          cover={snowCover}
+        />
+      )}
+
+      {quality.contactShadowResolution > 0 && (
+        <ContactShadows 
+          resolution={quality.contactShadowResolution} 
+          scale={30} 
+          blur={2} 
+          opacity={0.5} 
+          far={10} 
+          color="#000000" 
+        />
+      )}
 
       {/* Post Processing */}
-      <EffectComposer disableNormalPass>
-        <Bloom 
-            luminanceThreshold={0.85} 
-            mipmapBlur 
-            intensity={1.5} 
-            radius={0.4}
+      <ThemedEffects theme={liveTheme} quality={quality} />
+
+      {onScreenshotDone && (
+        <ScreenshotCapture
+          renderFirst={!quality.bloom && !quality.vignette && !quality.noise}
+          onDone={onScreenshotDone}
         />
-        <Vignette eskil={false} offset={0.1} darkness={0.5} />
-        <Noise opacity={0.015} />
-      </EffectComposer>
+      )}
 
       <OrbitControls 
+        makeDefault
         minPolarAngle={Math.PI / 3.5} 
         maxPolarAngle={Math.PI / 1.9} 
         enablePan={false}
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Shapes, Upload } from 'lucide-react';
+import { ShapeTarget } from '../types';
+import { SHAPE_KINDS, parseSvgShape } from '../utils/shapeTargets';
+
+interface ShapeControlProps {
+  shape: ShapeTarget;
+  isActive: boolean; // Tree is currently in SHAPE mode
+  onForm: (shape: ShapeTarget) => void; // Switch to SHAPE mode with this shape
+}
+
+// Control panel section for SHAPE mode. Typing a name and pressing Enter
+// re-forms the tree into it, so a host can greet guests one by one.
+const ShapeControl: React.FC<ShapeControlProps> = ({ shape, isActive, onForm }) => {
+  const [kind, setKind] = useState<ShapeTarget['kind']>(shape.kind);
+  const [text, setText] = useState(shape.kind === 'text' ? shape.text : 'Merry Christmas');
+  const [svgShape, setSvgShape] = useState<ShapeTarget | null>(shape.kind === 'svg' ? shape : null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const current = (): ShapeTarget | null => {
+    switch (kind) {
+      case 'text': return text.trim() ? { kind: 'text', text: text.trim() } : null;
+      case 'svg': return svgShape;
+      default: return { kind };
+    }
+  };
+
+  const form = () => {
+    const next = current();
+    if (next) onForm(next);
+  };
+
+  const handleKindChange = (next: ShapeTarget['kind']) => {
+    setKind(next);
+    setError(null);
+    // While a shape is showing, built-in outlines swap in straight away
+    if ((next === 'heart' || next === 'star') && isActive) onForm({ kind: next });
+    else if (next === 'svg' && !svgShape) inputRef.current?.click();
+  };
+
+  const handleSvg = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseSvgShape(await file.text(), file.name);
+      setSvgShape(parsed);
+      setError(null);
+      if (isActive) onForm(parsed);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2 w-full">
+      <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">SHAPE</span>
+      <select
+        value={kind}
+        onChange={(e) => handleKindChange(e.target.value as ShapeTarget['kind'])}
+        className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+      >
+        {SHAPE_KINDS.map(({ kind, label }) => (
+          <option key={kind} value={kind} className="bg-black">{label.toUpperCase()}</option>
+        ))}
+      </select>
+
+      {kind === 'text' && (
+        <input
+          type="text"
+          value={text}
+          maxLength={24}
+          placeholder="Guest name"
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') form(); }}
+          className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+        />
+      )}
+
+      {kind === 'svg' && (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1 w-32 text-[10px] text-[#FFD700] tracking-widest font-serif hover:bg-white/5 rounded px-1 py-0.5"
+        >
+          <Upload size={12} />
+          <span className="truncate">{svgShape?.kind === 'svg' ? svgShape.name : 'UPLOAD SVG'}</span>
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept="image/svg+xml,.svg" className="hidden" onChange={handleSvg} />
+
+      {error && <span className="w-32 text-[9px] text-red-300 font-serif">{error}</span>}
+
+      <button
+        onClick={form}
+        disabled={!current()}
+        className={`flex items-center gap-2 w-32 p-1 rounded-lg border transition-all disabled:opacity-40 ${isActive ? 'border-[#FFD700] text-[#FFD700] bg-[#FFD700]/10' : 'border-[#FFD700]/30 text-[#FFD700] hover:bg-white/5'}`}
+      >
+        <Shapes size={14} />
+        <span className="text-[10px] tracking-widest font-serif font-bold">FORM SHAPE</span>
+      </button>
+    </div>
+  );
+};
+
+export default ShapeControl;
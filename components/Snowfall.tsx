@@ -0,0 +1,121 @@
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { createStream } from '../utils/random';
+
+interface SnowfallProps {
+  seed: number;
+  count: number; // Flakes at full intensity
+  intensity: number; // 0..1, share of flakes falling and how fast snow settles
+  wind: number; // -1..1, steady drift along X
+  groundY: number; // Where flakes land and the drift builds up
+  physicsRef: React.MutableRefObject<{ velocity: number }>; // Spinning the tree gusts the flakes
+  cover: React.MutableRefObject<number>; // 0..1 settled snow, shared with the foliage frost
+}
+
+// Box the flakes fall through, centered on the tree
+const AREA = 32;
+const FALL_HEIGHT = 26;
+// Landed flakes needed, at full intensity, for a full cover
+const FLAKES_TO_COVER = 40000;
+const GROUND_RADIUS = 16;
+// Drift height at full cover, as a share of its radius
+const MOUND_HEIGHT = 0.2;
+
+// Instanced snowflakes falling over the tree, and the drift they leave on the ground
+const Snowfall: React.FC<SnowfallProps> = ({ seed, count, intensity, wind, groundY, physicsRef, cover }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const groundRef = useRef<THREE.MeshStandardMaterial>(null);
+  const moundRef = useRef<THREE.Mesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const gust = useRef(0);
+  const lastPointerX = useRef(0);
+
+  const flakes = useMemo(() => {
+    const random = createStream(seed, 'snow');
+    return Array.from({ length: count }, () => ({
+      x: (random() - 0.5) * AREA,
+      y: random() * FALL_HEIGHT,
+      z: (random() - 0.5) * AREA,
+      speed: 0.8 + random() * 0.9,
+      phase: random() * Math.PI * 2,
+      size: 0.6 + random() * 0.8,
+    }));
+  }, [seed, count]);
+
+  // Snow starts fresh each time it's switched on
+  useEffect(() => {
+    cover.current = 0;
+    return () => { cover.current = 0; };
+  }, [cover]);
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dt = Math.min(delta, 0.1);
+    const active = Math.round(count * THREE.MathUtils.clamp(intensity, 0, 1));
+
+    // Spinning the tree, by hand or mouse, and sweeping the pointer both push the air
+    const pointerDx = state.pointer.x - lastPointerX.current;
+    lastPointerX.current = state.pointer.x;
+    const push = physicsRef.current.velocity * 150 + pointerDx * 40;
+    gust.current = THREE.MathUtils.clamp(gust.current + push, -12, 12);
+    gust.current *= Math.exp(-dt * 1.5);
+    const drift = wind * 2.5 + gust.current;
+
+    let landed = 0;
+    const t = state.clock.elapsedTime;
+    for (let i = 0; i < active; i++) {
+      const f = flakes[i];
+      f.y -= f.speed * dt;
+      f.x += (drift * (0.6 + f.size * 0.4) + Math.sin(t * 0.8 + f.phase) * 0.3) * dt;
+      f.z += Math.cos(t * 0.6 + f.phase) * 0.2 * dt;
+      if (f.y < 0) {
+        f.y += FALL_HEIGHT;
+        landed++;
+      }
+      // Wrap sideways so a strong gust doesn't empty the sky
+      if (f.x > AREA / 2) f.x -= AREA;
+      else if (f.x < -AREA / 2) f.x += AREA;
+
+      dummy.position.set(f.x, groundY + f.y, f.z);
+      dummy.rotation.set(t * f.speed + f.phase, f.phase, 0);
+      dummy.scale.setScalar(f.size);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    }
+    mesh.count = active;
+    mesh.instanceMatrix.needsUpdate = true;
+
+    cover.current = Math.min(1, cover.current + landed / FLAKES_TO_COVER);
+
+    if (groundRef.current) groundRef.current.opacity = cover.current * 0.9;
+    if (moundRef.current) {
+      moundRef.current.visible = cover.current > 0.01;
+      moundRef.current.scale.set(1, Math.max(0.001, cover.current * MOUND_HEIGHT), 1);
+    }
+  });
+
+  return (
+    <>
+      <instancedMesh ref={meshRef} args={[undefined, undefined, count]} frustumCulled={false}>
+        <icosahedronGeometry args={[0.045, 0]} />
+        <meshStandardMaterial color="#FFFFFF" emissive="#dfefff" emissiveIntensity={0.6} roughness={0.6} />
+      </instancedMesh>
+
+      {/* Frosted ground, fading in as snow settles */}
+      <mesh position={[0, groundY + 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+        <circleGeometry args={[GROUND_RADIUS, 64]} />
+        <meshStandardMaterial ref={groundRef} color="#f4f8ff" roughness={0.85} transparent opacity={0} depthWrite={false} />
+      </mesh>
+
+      {/* Drift banked up around the trunk */}
+      <mesh ref={moundRef} position={[0, groundY, 0]} visible={false} receiveShadow>
+        <sphereGeometry args={[6, 48, 16, 0, Math.PI * 2, 0, Math.PI / 2]} />
+        <meshStandardMaterial color="#f4f8ff" roughness={0.9} />
+      </mesh>
+    </>
+  );
+};
+
+export default Snowfall;
@@ -0,0 +1,81 @@
+import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { LightDrapeId, LightPatternId, TreeMode } from '../types';
+import { createStream } from '../utils/random';
+import { placeBulbs, bulbLevel, bulbColor } from '../utils/stringLights';
+
+interface StringLightsProps {
+  mode: TreeMode;
+  seed: number;
+  pattern: LightPatternId;
+  drape: LightDrapeId;
+  intensity: number; // TreeState.lightIntensity; 0 switches the lights off
+  palette: THREE.Color[]; // Live theme colors, read every frame
+  treeHeight: number;
+  baseRadius: number;
+  chaosRadius: number;
+}
+
+const BULB_COUNT = 260;
+
+// Emissive bulbs draped over the foliage. Colors go past 1 so the bulbs
+// clear the Bloom threshold and glow.
+const StringLights: React.FC<StringLightsProps> = ({ mode, seed, pattern, drape, intensity, palette, treeHeight, baseRadius, chaosRadius }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const color = useMemo(() => new THREE.Color(), []);
+  const progress = useRef(mode === TreeMode.FORMED ? 1 : 0);
+  const patternTime = useRef(0);
+
+  const bulbs = useMemo(() => placeBulbs(drape, {
+    height: treeHeight,
+    baseRadius,
+    chaosRadius,
+    count: BULB_COUNT,
+    random: createStream(seed, `lights:${drape}`),
+  }), [drape, seed, treeHeight, baseRadius, chaosRadius]);
+
+  // Instance colors must exist before the first render to be picked up
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    bulbs.forEach((_, i) => mesh.setColorAt(i, color.setScalar(0)));
+    mesh.count = bulbs.length;
+  }, [bulbs, color]);
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.visible = intensity > 0;
+    if (!mesh.visible) return;
+
+    const target = mode === TreeMode.FORMED ? 1 : 0;
+    progress.current += (target - progress.current) * Math.min(1, delta * 1.5);
+    // Brighter lights also animate faster
+    patternTime.current += delta * (0.4 + intensity * 0.4);
+    const brightness = intensity * 0.8;
+
+    bulbs.forEach((bulb, i) => {
+      // Bulbs further along the strand leave and arrive a little later
+      const t = THREE.MathUtils.clamp(progress.current * 1.4 - bulb.along * 0.4, 0, 1);
+      dummy.position.lerpVectors(bulb.chaosPos, bulb.position, t * t * (3 - 2 * t));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+
+      bulbColor(pattern, bulb, patternTime.current, palette, color);
+      mesh.setColorAt(i, color.multiplyScalar(brightness * bulbLevel(pattern, bulb, patternTime.current)));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, BULB_COUNT]} frustumCulled={false}>
+      <sphereGeometry args={[0.055, 10, 10]} />
+      <meshBasicMaterial toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+export default StringLights;
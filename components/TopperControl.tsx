@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { TopperId } from '../types';
+import { TOPPERS, TOPPER_SIZE } from './Toppers';
+import { TopperModel, loadTopperModel } from '../utils/topperModel';
+
+interface TopperControlProps {
+  topper: TopperId;
+  customModel: TopperModel | null;
+  onChange: (topper: TopperId) => void;
+  onModel: (model: TopperModel) => void; // Also selects it
+}
+
+// Control panel section picking what crowns the tree. Choosing the custom
+// option without a model opens the file picker.
+const TopperControl: React.FC<TopperControlProps> = ({ topper, customModel, onChange, onModel }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (next: TopperId) => {
+    setError(null);
+    if (next === 'custom' && !customModel) inputRef.current?.click();
+    else onChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      onModel(await loadTopperModel(file, TOPPER_SIZE));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2 w-full">
+      <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">TOPPER</span>
+      <select
+        value={topper}
+        onChange={(e) => handleChange(e.target.value as TopperId)}
+        className="w-32 bg-transparent border border-[#FFD700]/30 rounded px-1 py-0.5 text-[10px] text-[#FFD700] tracking-widest font-serif outline-none"
+      >
+        {Object.values(TOPPERS).map(def => (
+          <option key={def.id} value={def.id} className="bg-black">{def.label.toUpperCase()}</option>
+        ))}
+        <option value="custom" className="bg-black">{customModel ? 'CUSTOM MODEL' : 'LOAD MODEL…'}</option>
+      </select>
+
+      {topper === 'custom' && (
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isLoading}
+          className="flex items-center gap-1 w-32 text-[10px] text-[#FFD700] tracking-widest font-serif hover:bg-white/5 rounded px-1 py-0.5 disabled:opacity-40"
+        >
+          <Upload size={12} />
+          <span className="truncate">{isLoading ? 'LOADING…' : customModel?.name ?? 'LOAD GLTF / GLB'}</span>
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept=".glb,.gltf,model/gltf-binary,model/gltf+json" className="hidden" onChange={handleFile} />
+
+      {error && <span className="w-32 text-[9px] text-red-300 font-serif">{error}</span>}
+    </div>
+  );
+};
+
+export default TopperControl;
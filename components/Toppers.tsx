@@ -0,0 +1,136 @@
+import React from 'react';
+import * as THREE from 'three';
+import { TopperId } from '../types';
+
+// Built-in tree toppers. Each body is centered on the origin, about 1.6 units
+// tall, and is handed the glowing theme material so it follows the star color.
+// Decorations owns the drift/reform motion, light and sparkles around it.
+
+export type BuiltinTopperId = Exclude<TopperId, 'custom'>;
+
+export interface TopperDef {
+  id: BuiltinTopperId;
+  label: string;
+  Body: React.FC<{ material: THREE.Material }>;
+}
+
+// Longest edge an imported model is scaled to, matching the built-ins
+export const TOPPER_SIZE = 1.6;
+
+// --- BODIES ---
+
+// The original faceted star
+const GrandStarBody: React.FC<{ material: THREE.Material }> = ({ material }) => (
+  <mesh material={material}>
+    <octahedronGeometry args={[0.8, 0]} />
+  </mesh>
+);
+
+const STAR_GEOMETRY = (() => {
+  const shape = new THREE.Shape();
+  for (let i = 0; i < 10; i++) {
+    const angle = Math.PI / 2 + (i * Math.PI) / 5;
+    const r = i % 2 === 0 ? 0.8 : 0.34;
+    if (i === 0) shape.moveTo(Math.cos(angle) * r, Math.sin(angle) * r);
+    else shape.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+  }
+  shape.closePath();
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: 0.16, bevelEnabled: true, bevelThickness: 0.06, bevelSize: 0.05, bevelSegments: 2,
+  });
+  geometry.center();
+  return geometry;
+})();
+
+const StarBody: React.FC<{ material: THREE.Material }> = ({ material }) => (
+  <mesh geometry={STAR_GEOMETRY} material={material} castShadow />
+);
+
+const WING_GEOMETRY = (() => {
+  const shape = new THREE.Shape();
+  shape.moveTo(0, 0);
+  shape.bezierCurveTo(0.25, 0.35, 0.55, 0.45, 0.7, 0.3);
+  shape.bezierCurveTo(0.55, 0.2, 0.6, 0.05, 0.5, -0.05);
+  shape.bezierCurveTo(0.4, -0.15, 0.3, -0.3, 0, -0.15);
+  shape.closePath();
+  return new THREE.ExtrudeGeometry(shape, { depth: 0.03, bevelEnabled: false });
+})();
+
+// Robed angel with a halo and swept-back wings
+const AngelBody: React.FC<{ material: THREE.Material }> = ({ material }) => (
+  <group position={[0, -0.1, 0]}>
+    <mesh position={[0, -0.25, 0]} castShadow>
+      <coneGeometry args={[0.38, 0.9, 24, 1, true]} />
+      <meshStandardMaterial color="#FFF8E7" roughness={0.4} side={THREE.DoubleSide} />
+    </mesh>
+    <mesh position={[0, 0.35, 0]} castShadow>
+      <sphereGeometry args={[0.15, 20, 20]} />
+      <meshStandardMaterial color="#F5D9C0" roughness={0.6} />
+    </mesh>
+    <mesh position={[0, 0.6, 0]} rotation={[Math.PI / 2, 0, 0]} material={material}>
+      <torusGeometry args={[0.14, 0.025, 8, 32]} />
+    </mesh>
+    {[-1, 1].map(side => (
+      <mesh
+        key={side}
+        geometry={WING_GEOMETRY}
+        material={material}
+        position={[side * 0.05, 0.05, -0.12]}
+        rotation={[0, side === 1 ? -0.5 : Math.PI + 0.5, 0]}
+      />
+    ))}
+  </group>
+);
+
+// Ribbon bow: two loops, a knot and trailing tails
+const BowBody: React.FC<{ material: THREE.Material }> = ({ material }) => (
+  <group>
+    {[-1, 1].map(side => (
+      <React.Fragment key={side}>
+        <mesh material={material} position={[side * 0.38, 0.12, 0]} rotation={[0, 0, side * 0.35]} scale={[1, 0.65, 1]} castShadow>
+          <torusGeometry args={[0.34, 0.09, 12, 32]} />
+        </mesh>
+        <mesh material={material} position={[side * 0.2, -0.42, 0]} rotation={[0, 0, side * 0.35]} castShadow>
+          <boxGeometry args={[0.16, 0.75, 0.05]} />
+        </mesh>
+      </React.Fragment>
+    ))}
+    <mesh material={material} position={[0, 0.08, 0]} castShadow>
+      <sphereGeometry args={[0.15, 16, 16]} />
+    </mesh>
+  </group>
+);
+
+// Six arms, each with two pairs of side branches
+const SnowflakeBody: React.FC<{ material: THREE.Material }> = ({ material }) => (
+  <group>
+    <mesh material={material}>
+      <cylinderGeometry args={[0.14, 0.14, 0.06, 6]} />
+    </mesh>
+    {Array.from({ length: 6 }, (_, arm) => (
+      <group key={arm} rotation={[0, 0, (arm * Math.PI) / 3]}>
+        <mesh material={material} position={[0, 0.42, 0]}>
+          <boxGeometry args={[0.06, 0.8, 0.05]} />
+        </mesh>
+        {[0.38, 0.6].map(y => [-1, 1].map(side => (
+          <mesh key={`${y}${side}`} material={material} position={[side * 0.09, y + 0.06, 0]} rotation={[0, 0, side * -Math.PI / 4]}>
+            <boxGeometry args={[0.045, y === 0.38 ? 0.28 : 0.2, 0.04]} />
+          </mesh>
+        )))}
+        <mesh material={material} position={[0, 0.84, 0]}>
+          <octahedronGeometry args={[0.06, 0]} />
+        </mesh>
+      </group>
+    ))}
+  </group>
+);
+
+// --- REGISTRY ---
+
+export const TOPPERS: Record<BuiltinTopperId, TopperDef> = {
+  grandStar: { id: 'grandStar', label: 'Grand Star', Body: GrandStarBody },
+  star: { id: 'star', label: 'Star', Body: StarBody },
+  angel: { id: 'angel', label: 'Angel', Body: AngelBody },
+  bow: { id: 'bow', label: 'Bow', Body: BowBody },
+  snowflake: { id: 'snowflake', label: 'Snowflake', Body: SnowflakeBody },
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X, Plus, Minus, RotateCcw, AlertTriangle } from 'lucide-react';
+import { TreeConfig } from '../types';
+import { TREE_CONFIG_LIMITS, PALETTE_FIELDS, DEFAULT_TREE_CONFIG, validateTreeConfig } from '../utils/treeConfig';
+
+interface TreeConfigPanelProps {
+  config: TreeConfig;
+  onChange: (config: TreeConfig) => void;
+}
+
+// Designer controls for tree shape, density and colors. Edits apply live;
+// invalid values are listed and held back until fixed.
+const TreeConfigPanel: React.FC<TreeConfigPanelProps> = ({ config, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Edited copy; only forwarded while it validates
+  const [draft, setDraft] = useState<TreeConfig>(config);
+  const issues = validateTreeConfig(draft);
+
+  const update = (next: TreeConfig) => {
+    setDraft(next);
+    if (validateTreeConfig(next).length === 0) onChange(next);
+  };
+
+  const setPaletteColor = (key: keyof TreeConfig['palette'], index: number, color: string | null) => {
+    const colors = [...draft.palette[key]];
+    if (color === null) colors.splice(index, 1);
+    else colors[index] = color;
+    update({ ...draft, palette: { ...draft.palette, [key]: colors } });
+  };
+
+  return (
+    <div className="absolute top-4 left-4 z-30 flex flex-col items-start gap-2">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 text-[#FFD700] p-3 rounded-full hover:bg-white/5 transition-all"
+        title="Tree Config"
+      >
+        {isOpen ? <X size={18} /> : <SlidersHorizontal size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="backdrop-blur-xl bg-black/50 border border-[#FFD700]/30 px-4 py-4 rounded-2xl w-64 max-h-[80vh] overflow-y-auto flex flex-col gap-3 shadow-[0_0_50px_rgba(0,0,0,0.8)]">
+          {(Object.keys(TREE_CONFIG_LIMITS) as (keyof typeof TREE_CONFIG_LIMITS)[]).map(key => {
+            const { label, min, max, step } = TREE_CONFIG_LIMITS[key];
+            return (
+              <div key={key} className="flex flex-col gap-1">
+                <div className="flex justify-between text-[10px] tracking-widest font-serif">
+                  <span className="text-[#e0e0e0]">{label.toUpperCase()}</span>
+                  <span className="text-[#FFD700]">{draft[key]}</span>
+                </div>
+                <input
+                  type="range" min={min} max={max} step={step}
+                  value={draft[key]}
+                  onChange={(e) => update({ ...draft, [key]: parseFloat(e.target.value) })}
+                  className="w-full accent-[#FFD700] h-1"
+                />
+              </div>
+            );
+          })}
+
+          <div className="w-full h-px bg-white/20" />
+
+          {PALETTE_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex flex-col gap-1">
+              <span className="text-[10px] text-[#e0e0e0] tracking-widest font-serif">{label.toUpperCase()} COLORS</span>
+              <div className="flex flex-wrap items-center gap-1">
+                {draft.palette[key].map((color, i) => (
+                  <div key={i} className="relative group">
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => setPaletteColor(key, i, e.target.value)}
+                      className="w-6 h-6 rounded border border-white/20 bg-transparent cursor-pointer"
+                    />
+                    <button
+                      onClick={() => setPaletteColor(key, i, null)}
+                      className="absolute -top-1 -right-1 hidden group-hover:block bg-black text-red-400 rounded-full"
+                    >
+                      <Minus size={10} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setPaletteColor(key, draft.palette[key].length, '#ffffff')}
+                  className="text-[#FFD700] hover:scale-110 transition-transform"
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {issues.length > 0 && (
+            <div className="p-2 rounded-lg border border-red-400/50 bg-red-950/40 text-red-300 text-[10px] font-serif">
+              <div className="flex items-center gap-1 font-bold mb-1">
+                <AlertTriangle size={12} /> Not applied
+              </div>
+              <ul className="list-disc pl-4">
+                {issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={() => update(DEFAULT_TREE_CONFIG)}
+            className="flex items-center justify-center gap-2 w-full p-2 rounded-lg border border-[#FFD700]/50 text-[#FFD700] hover:bg-white/5 transition-all"
+          >
+            <RotateCcw size={12} />
+            <span className="text-[10px] tracking-widest font-serif font-bold">RESET</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreeConfigPanel;
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CustomOrnament, CustomOrnamentKind } from '../types';
+import { isRecord } from '../utils/guards';
+
+const STORAGE_KEY = 'luxury-tree:ornaments';
+
+export const CUSTOM_ORNAMENT_KINDS: { kind: CustomOrnamentKind; label: string }[] = [
+  { kind: 'ball', label: 'Ball' },
+  { kind: 'box', label: 'Box' },
+  { kind: 'bell', label: 'Bell' },
+  { kind: 'candyCane', label: 'Candy Cane' },
+];
+
+const isCustomOrnament = (value: unknown): value is CustomOrnament => {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && CUSTOM_ORNAMENT_KINDS.some(({ kind }) => kind === value.kind)
+    && typeof value.color === 'string'
+    && Number.isFinite(value.height)
+    && Number.isFinite(value.angle);
+};
+
+// Drops anything malformed rather than losing the whole set
+const loadOrnaments = (): CustomOrnament[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isCustomOrnament) : [];
+  } catch (err) {
+    console.warn("Ignoring stored ornaments:", err);
+    return [];
+  }
+};
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export interface CustomOrnaments {
+  ornaments: CustomOrnament[];
+  add: (kind: CustomOrnamentKind, color: string, height: number, angle: number) => void;
+  move: (id: string, height: number, angle: number) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+// Ornaments hung by hand, persisted in localStorage
+export const useCustomOrnaments = (): CustomOrnaments => {
+  const [ornaments, setOrnaments] = useState<CustomOrnament[]>(loadOrnaments);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ornaments));
+  }, [ornaments]);
+
+  const add = useCallback((kind: CustomOrnamentKind, color: string, height: number, angle: number) => {
+    setOrnaments(prev => [...prev, { id: newId(), kind, color, height, angle }]);
+  }, []);
+
+  const move = useCallback((id: string, height: number, angle: number) => {
+    setOrnaments(prev => prev.map(o => o.id === id ? { ...o, height, angle } : o));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setOrnaments(prev => prev.filter(o => o.id !== id));
+  }, []);
+
+  const clear = useCallback(() => setOrnaments([]), []);
+
+  return { ornaments, add, move, remove, clear };
+};
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GestureBinding, GestureId, GestureTimings } from '../types';
+import { DEFAULT_GESTURE_BINDINGS, GESTURE_ACTIONS, THRESHOLD_LIMITS } from '../utils/gestureBindings';
+import { DEFAULT_GESTURE_TIMINGS, GESTURE_TIMING_LIMITS } from '../utils/gestureMachine';
+import { isRecord } from '../utils/guards';
+
+const STORAGE_KEY = 'luxury-tree:gestures';
+const TIMINGS_STORAGE_KEY = 'luxury-tree:gesture-timings';
+
+const isBinding = (value: unknown): value is GestureBinding => {
+  return isRecord(value)
+    && GESTURE_ACTIONS.some(action => action.id === value.action)
+    && typeof value.threshold === 'number'
+    && value.threshold >= THRESHOLD_LIMITS.min && value.threshold <= THRESHOLD_LIMITS.max;
+};
+
+// One binding per gesture, in the default order. Stored bindings replace the
+// defaults they match; unknown or malformed ones are dropped.
+const loadBindings = (): GestureBinding[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return DEFAULT_GESTURE_BINDINGS;
+    return DEFAULT_GESTURE_BINDINGS.map(binding => {
+      const saved = stored.find((entry: unknown) => isRecord(entry) && entry.gesture === binding.gesture);
+      return isBinding(saved) ? { ...binding, action: saved.action, threshold: saved.threshold } : binding;
+    });
+  } catch (err) {
+    console.warn("Ignoring stored gesture bindings:", err);
+    return DEFAULT_GESTURE_BINDINGS;
+  }
+};
+
+// Each stored timing is kept if it's within its limits
+const loadTimings = (): GestureTimings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(TIMINGS_STORAGE_KEY) ?? '{}');
+    const timings = { ...DEFAULT_GESTURE_TIMINGS };
+    (Object.keys(GESTURE_TIMING_LIMITS) as (keyof GestureTimings)[]).forEach(key => {
+      const value = isRecord(stored) ? stored[key] : undefined;
+      const { min, max } = GESTURE_TIMING_LIMITS[key];
+      if (typeof value === 'number' && value >= min && value <= max) timings[key] = value;
+    });
+    return timings;
+  } catch (err) {
+    console.warn("Ignoring stored gesture timings:", err);
+    return DEFAULT_GESTURE_TIMINGS;
+  }
+};
+
+export interface GestureBindings {
+  bindings: GestureBinding[];
+  timings: GestureTimings;
+  update: (gesture: GestureId, changes: Partial<Omit<GestureBinding, 'gesture'>>) => void;
+  setTimings: (timings: GestureTimings) => void;
+  reset: () => void; // Bindings and timings
+}
+
+// What each hand pose does and how long it must be held, persisted in localStorage
+export const useGestureBindings = (): GestureBindings => {
+  const [bindings, setBindings] = useState<GestureBinding[]>(loadBindings);
+  const [timings, setTimings] = useState<GestureTimings>(loadTimings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  }, [bindings]);
+
+  useEffect(() => {
+    localStorage.setItem(TIMINGS_STORAGE_KEY, JSON.stringify(timings));
+  }, [timings]);
+
+  const update = useCallback((gesture: GestureId, changes: Partial<Omit<GestureBinding, 'gesture'>>) => {
+    setBindings(prev => prev.map(binding => binding.gesture === gesture ? { ...binding, ...changes } : binding));
+  }, []);
+
+  const reset = useCallback(() => {
+    setBindings(DEFAULT_GESTURE_BINDINGS);
+    setTimings(DEFAULT_GESTURE_TIMINGS);
+  }, []);
+
+  return { bindings, timings, update, setTimings, reset };
+};
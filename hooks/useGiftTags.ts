@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GiftTag } from '../types';
+import { isRecord } from '../utils/guards';
+
+const STORAGE_KEY = 'luxury-tree:gifts';
+
+const isGiftTag = (value: unknown): value is GiftTag => {
+  return isRecord(value)
+    && typeof value.name === 'string'
+    && typeof value.message === 'string'
+    && (value.photoId === undefined || Number.isInteger(value.photoId));
+};
+
+// Keeps the well-formed tags and drops the rest
+const loadTags = (): Record<number, GiftTag> => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const tags: Record<number, GiftTag> = {};
+    if (isRecord(stored)) {
+      Object.entries(stored).forEach(([key, tag]) => {
+        const index = parseInt(key, 10);
+        if (Number.isInteger(index) && index >= 0 && isGiftTag(tag)) tags[index] = tag;
+      });
+    }
+    return tags;
+  } catch (err) {
+    console.warn("Ignoring stored gift tags:", err);
+    return {};
+  }
+};
+
+export interface GiftTags {
+  tags: Record<number, GiftTag>;
+  update: (index: number, tag: GiftTag) => void;
+}
+
+// Name tags, messages and photos for the presents, persisted in localStorage.
+// Tags follow a gift's place in the arrangement, not the seed.
+export const useGiftTags = (): GiftTags => {
+  const [tags, setTags] = useState<Record<number, GiftTag>>(loadTags);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tags));
+  }, [tags]);
+
+  const update = useCallback((index: number, tag: GiftTag) => {
+    setTags(prev => ({ ...prev, [index]: tag }));
+  }, []);
+
+  return { tags, update };
+};
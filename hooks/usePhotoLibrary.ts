@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { FrameStyle, PhotoData, PhotoManifest, PhotoManifestEntry, StoredPhoto } from '../types';
+import { listPhotos, addPhotos, deletePhoto, movePhoto, setPhotoFrameStyle, loadManifest, saveManifest, clearManifest, uploadThumbnailKey } from '../utils/photoStore';
+import { forgetThumbnails } from '../utils/thumbnails';
+import { fetchPhotoManifest, parsePhotoManifestText, isVideoSource, ManifestError } from '../utils/photoManifest';
+
+// Shown until the user uploads photos of their own
+const DEFAULT_PHOTO_COUNT = 14;
+// Optional manifest shipped with the deployment, used when nothing is imported
+const BUNDLED_MANIFEST_URL = '/photos/manifest.json';
+
+const photoColor = (id: number) => `hsl(${35 + (id * 7) % 15}, 80%, ${40 + (id * 13) % 20}%)`;
+
+const defaultPhotos = (): PhotoData[] => {
+  return Array.from({ length: DEFAULT_PHOTO_COUNT }, (_, i) => ({
+    id: i,
+    url: `/photos/${i + 1}.jpg`,
+    color: photoColor(i),
+  }));
+};
+
+const entryMetadata = (entry: PhotoManifestEntry | undefined) => {
+  if (!entry) return {};
+  const { src, video, ...metadata } = entry;
+  return metadata;
+};
+
+const isVideoBlob = (blob: Blob) => blob.type.startsWith('video/');
+
+// Clips used as the motion half of a live photo aren't shown on their own
+const liveClipIds = (stored: StoredPhoto[], manifest: PhotoManifest | null): Set<number> => {
+  const liveClips = new Set(manifest?.photos.flatMap(e => e.video ? [e.video] : []));
+  return new Set(stored.filter(p => isVideoBlob(p.blob) && liveClips.has(p.name)).map(p => p.id));
+};
+
+const isManifestFile = (file: File) => file.type === 'application/json' || file.name.endsWith('.json');
+
+export interface PhotoLibrary {
+  photos: PhotoData[];
+  isCustom: boolean; // True once at least one photo has been uploaded
+  hasImportedManifest: boolean;
+  manifestError: ManifestError | null;
+  upload: (files: File[]) => Promise<void>;
+  remove: (id: number) => Promise<void>;
+  move: (id: number, direction: -1 | 1) => Promise<void>;
+  setFrameStyle: (id: number, frameStyle: FrameStyle | undefined) => Promise<void>;
+  removeManifest: () => Promise<void>;
+}
+
+export const usePhotoLibrary = (): PhotoLibrary => {
+  const [photos, setPhotos] = useState<PhotoData[]>(defaultPhotos);
+  const [isCustom, setIsCustom] = useState(false);
+  const [hasImportedManifest, setHasImportedManifest] = useState(false);
+  const [manifestError, setManifestError] = useState<ManifestError | null>(null);
+  const [revision, setRevision] = useState(0);
+  const objectUrls = useRef<string[]>([]);
+  // Stored ids left out of `photos`, which moves skip over
+  const hiddenIds = useRef(new Set<number>());
+
+  const refresh = useCallback(() => setRevision(r => r + 1), []);
+
+  // Load stored photos and expose them as object URLs, with manifest metadata attached.
+  // Previous URLs are only revoked once the new set is in place so open images don't break.
+  useEffect(() => {
+    let isActive = true;
+
+    const load = async () => {
+      const stored = await listPhotos();
+      const imported = await loadManifest();
+      let manifest: PhotoManifest | null = imported;
+      if (!manifest) {
+        try {
+          manifest = await fetchPhotoManifest(BUNDLED_MANIFEST_URL);
+        } catch (err) {
+          console.error(err);
+          if (isActive && err instanceof ManifestError) setManifestError(err);
+        }
+      }
+      return { stored, manifest, imported: imported !== null };
+    };
+
+    const toPhotos = (stored: StoredPhoto[], manifest: PhotoManifest | null): PhotoData[] => {
+      if (stored.length > 0) {
+        const urlByName = new Map(stored.map((p, i) => [p.name, objectUrls.current[i]]));
+        // Manifest `video` fields may name uploaded clips; resolve them to object URLs
+        const resolve = (src: string) => urlByName.get(src) ?? src;
+        const hidden = liveClipIds(stored, manifest);
+        // Uploaded photos pick up metadata from manifest entries naming their file
+        const byName = new Map(manifest?.photos.map(e => [e.src, e]));
+        return stored.flatMap((p, i) => {
+          if (hidden.has(p.id)) return [];
+          const entry = byName.get(p.name);
+          const isVideo = isVideoBlob(p.blob);
+          return [{
+            id: p.id,
+            url: isVideo ? undefined : objectUrls.current[i],
+            videoUrl: isVideo ? objectUrls.current[i] : entry?.video && resolve(entry.video),
+            thumbnailKey: uploadThumbnailKey(p.id),
+            color: photoColor(p.id),
+            ...entryMetadata(entry),
+            // A style picked in the app beats the manifest
+            ...(p.frameStyle && { frameStyle: p.frameStyle }),
+          }];
+        });
+      }
+      if (manifest && manifest.photos.length > 0) {
+        return manifest.photos.map((entry, i) => {
+          const isVideo = isVideoSource(entry.src);
+          return {
+            id: i,
+            url: isVideo ? undefined : entry.src,
+            videoUrl: isVideo ? entry.src : entry.video,
+            color: photoColor(i),
+            ...entryMetadata(entry),
+          };
+        });
+      }
+      return defaultPhotos();
+    };
+
+    load()
+      .then(({ stored, manifest, imported }) => {
+        if (!isActive) return;
+        const previousUrls = objectUrls.current;
+        objectUrls.current = stored.map(p => URL.createObjectURL(p.blob));
+        hiddenIds.current = liveClipIds(stored, manifest);
+        setPhotos(toPhotos(stored, manifest));
+        setIsCustom(stored.length > 0);
+        setHasImportedManifest(imported);
+        previousUrls.forEach(url => URL.revokeObjectURL(url));
+      })
+      .catch(err => console.error("Failed to load stored photos:", err));
+
+    return () => {
+      isActive = false;
+    };
+  }, [revision]);
+
+  // Release all object URLs on unmount
+  useEffect(() => {
+    return () => objectUrls.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  // Accepts images and manifest JSON files in any mix.
+  // An invalid manifest is reported through manifestError and not stored.
+  const upload = useCallback(async (files: File[]) => {
+    const manifestFile = files.find(isManifestFile);
+    if (manifestFile) {
+      try {
+        const manifest = parsePhotoManifestText(await manifestFile.text());
+        await saveManifest(manifest);
+        setManifestError(null);
+      } catch (err) {
+        if (!(err instanceof ManifestError)) throw err;
+        console.error(err);
+        setManifestError(err);
+      }
+    }
+    await addPhotos(files.filter(f => !isManifestFile(f)));
+    refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: number) => {
+    // First, so a thumbnail still generating isn't cached after the delete
+    forgetThumbnails(uploadThumbnailKey(id));
+    await deletePhoto(id);
+    refresh();
+  }, [refresh]);
+
+  const move = useCallback(async (id: number, direction: -1 | 1) => {
+    await movePhoto(id, direction, hiddenIds.current);
+    refresh();
+  }, [refresh]);
+
+  const setFrameStyle = useCallback(async (id: number, frameStyle: FrameStyle | undefined) => {
+    await setPhotoFrameStyle(id, frameStyle);
+    refresh();
+  }, [refresh]);
+
+  const removeManifest = useCallback(async () => {
+    await clearManifest();
+    setManifestError(null);
+    refresh();
+  }, [refresh]);
+
+  return { photos, isCustom, hasImportedManifest, manifestError, upload, remove, move, setFrameStyle, removeManifest };
+};
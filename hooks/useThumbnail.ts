@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { PhotoData } from '../types';
+import { requestThumbnail } from '../utils/thumbnails';
+
+// Downscaled image URL for a photo, or a poster frame for a clip. Undefined while
+// the thumbnail is being prepared; falls back to the full-resolution still if
+// generation fails.
+export const useThumbnail = (photo: PhotoData, size: number): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>(undefined);
+  const { thumbnailKey } = photo;
+  // Live photos take their thumbnail from the still
+  const isVideo = !photo.url && !!photo.videoUrl;
+  const sourceUrl = photo.url ?? photo.videoUrl;
+
+  useEffect(() => {
+    if (!sourceUrl) {
+      setUrl(undefined);
+      return;
+    }
+
+    let isActive = true;
+    let objectUrl: string | null = null;
+    setUrl(undefined);
+
+    requestThumbnail(thumbnailKey ?? sourceUrl, sourceUrl, size, isVideo)
+      .then(blob => {
+        if (!isActive) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.warn(`Thumbnail unavailable for ${sourceUrl}:`, err);
+        if (isActive) setUrl(isVideo ? undefined : sourceUrl);
+      });
+
+    return () => {
+      isActive = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [sourceUrl, thumbnailKey, size, isVideo]);
+
+  return url;
+};
@@ -1,18 +1,186 @@
 
 export enum TreeMode {
   CHAOS = 'CHAOS',
-  FORMED = 'FORMED'
+  FORMED = 'FORMED',
+  SHAPE = 'SHAPE' // Foliage and ornaments re-form into TreeState.shape
 }
 
+export enum FrameStyle {
+  POLAROID = 'polaroid',
+  BAROQUE = 'baroque',
+  BAUBLE = 'bauble',
+  CARD = 'card'
+}
+
+// Photo arrangement strategies, see utils/photoLayouts.ts
+export type PhotoLayoutId = 'spiral' | 'rings' | 'scatter' | 'dateClusters';
+
+// What the particles spell or outline in SHAPE mode, see utils/shapeTargets.ts
+export type ShapeTarget =
+  | { kind: 'text'; text: string }
+  | { kind: 'heart' }
+  | { kind: 'star' }
+  | { kind: 'svg'; name: string; path: string; bounds: [number, number, number, number] }; // bounds: x, y, width, height
+
+// Scene-wide color themes, see utils/themes.ts
+export type ThemeId = 'grandLuxury' | 'silverFrost' | 'candyCane' | 'midnightBlue';
+
+// Rendering cost tiers, cheapest first. See utils/quality.ts.
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+// String light animation and how the strands hang, see utils/stringLights.ts
+export type LightPatternId = 'steady' | 'twinkle' | 'chase' | 'fade' | 'colorCycle';
+export type LightDrapeId = 'helix' | 'drape';
+
+// What crowns the tree, see components/Toppers.tsx. 'custom' is an imported glTF model.
+export type TopperId = 'grandStar' | 'star' | 'angel' | 'bow' | 'snowflake' | 'custom';
+
 export interface TreeState {
   mode: TreeMode;
   rotationSpeed: number;
-  lightIntensity: number;
+  lightIntensity: number; // String light brightness and animation speed
+  lightPattern: LightPatternId;
+  lightDrape: LightDrapeId;
   showGoldDust: boolean;
+  showSnow: boolean;
+  snowIntensity: number; // 0..1
+  snowWind: number; // -1..1, blowing along +X
+  snowSparkle: boolean; // Settled snow glints on the foliage
+  photoLayout: PhotoLayoutId;
+  frameStyle: FrameStyle; // Default for photos that don't pick their own
+  seed: number; // Drives every random layout, see utils/random.ts
+  theme: ThemeId;
+  shape: ShapeTarget;
+  topper: TopperId;
+}
+
+// Descriptive fields shown under the polaroid in the photo modal
+export interface PhotoMetadata {
+  caption?: string;
+  date?: string; // ISO date, e.g. "2024-12-24"
+  location?: string;
+  credit?: string;
+  frameColor?: string; // CSS color for the polaroid border
+  frameStyle?: FrameStyle; // Overrides the tree-wide style
 }
 
-export interface PhotoData {
+export interface PhotoData extends PhotoMetadata {
   id: number;
-  url?: string; // Optional URL for real images later
+  url?: string; // Object URL for uploaded photos, or a static path for the defaults
+  videoUrl?: string; // Clip played on the frame. With `url` set too, this is a live photo.
+  thumbnailKey?: string; // Stable cache key for generated thumbnails, when `url` isn't
+  color: string;
+}
+
+export interface PhotoManifestEntry extends PhotoMetadata {
+  src: string; // URL, or the file name of an uploaded photo or video
+  video?: string; // Motion clip that makes `src` a live photo, given the same way
+}
+
+export interface PhotoManifest {
+  version: number;
+  photos: PhotoManifestEntry[];
+}
+
+// A user-uploaded photo as persisted in IndexedDB
+export interface StoredPhoto {
+  id: number;
+  blob: Blob;
+  name: string;
+  order: number; // Position on the spiral, ascending
+  createdAt: number;
+  frameStyle?: FrameStyle;
+}
+
+// Hand-tracked pointer published by GestureControl. x/y are normalized device
+// coordinates (-1..1, +y up); `pressed` is a thumb-index pinch.
+export interface GesturePointer {
+  active: boolean; // A hand is in view
+  x: number;
+  y: number;
+  pressed: boolean;
+}
+
+// Whole-hand tracking published by GestureControl. Landmarks use the same
+// mirrored device coordinates as GesturePointer (they may run past -1..1);
+// z is MediaPipe's depth relative to the wrist, smaller is nearer the camera.
+export interface TrackedHand {
+  active: boolean;
+  landmarks: { x: number; y: number; z: number }[]; // 21 points in MediaPipe order
+  open: boolean; // Open-hand (explode) gesture this frame
+}
+
+// Hand poses GestureControl can bind to actions, see utils/gestureBindings.ts.
+// The capitalized ones are MediaPipe's recognized categories; 'fist' and
+// 'openHand' are measured from the landmarks.
+export type GestureId =
+  | 'Thumb_Up' | 'Victory' | 'Pointing_Up' | 'ILoveYou' | 'Closed_Fist' | 'Open_Palm'
+  | 'fist' | 'openHand';
+
+export type GestureActionId =
+  | 'none' | 'formTree' | 'explodeTree' | 'toggleMode'
+  | 'nextPhoto' | 'toggleGoldDust' | 'nextTheme' | 'screenshot';
+
+export interface GestureBinding {
+  gesture: GestureId;
+  action: GestureActionId;
+  threshold: number; // 0.3..1; the pose's score must reach this to fire
+}
+
+// How long a pose must be held and how it lets go, see utils/gestureMachine.ts
+export interface GestureTimings {
+  holdMs: number; // A pose must stay matched this long before its action fires
+  cooldownMs: number; // After a mode change, no pose can fire for this long
+  releaseMargin: number; // A held pose lets go once its score drops this far below its threshold
+}
+
+// What a generated ornament does when clicked, see utils/ornamentActions.ts
+export type OrnamentAction = 'spin' | 'jingle' | 'pop';
+
+// Shown in the card opened by long-pressing an ornament
+export interface OrnamentDetails {
+  index: number;
+  total: number;
+  kind: 'box' | 'ball';
+  color: string; // Current themed color, as hex
+  height: number; // 0 = base of the tree, 1 = tip
+  action: OrnamentAction;
+  screen: { x: number; y: number }; // Client pixels where the press happened
+}
+
+export type CustomOrnamentKind = 'ball' | 'box' | 'bell' | 'candyCane';
+
+// An ornament hung by hand, kept in localStorage. It is placed on the foliage
+// cone by height and angle, so it stays on the surface when the tree is reshaped.
+export interface CustomOrnament {
+  id: string;
+  kind: CustomOrnamentKind;
   color: string;
+  height: number; // 0 = base of the tree, 1 = tip
+  angle: number; // Radians around the trunk
+}
+
+// Shape, density and colors of the generated tree. Defaults and limits live in utils/treeConfig.ts.
+export interface TreeConfig {
+  height: number;
+  baseRadius: number;
+  foliageCount: number;
+  boxCount: number;
+  ballCount: number;
+  chaosRadius: number; // Half-size of the cube foliage scatters into in CHAOS
+  starOffset: number; // Gap between the tip of the foliage and the star
+  giftCount: number; // Presents stacked around the trunk
+  palette: { // Used by themes that don't bring their own, see utils/themes.ts
+    foliage: string[];
+    boxes: string[]; // Picked uniformly; repeat a color to make it more common
+    balls: string[];
+    gifts: string[]; // Wrapping paper; ribbons use another color from the same list
+  };
+}
+
+// What a present under the tree holds, keyed by its place in the arrangement
+export interface GiftTag {
+  name: string; // Shown on the tag
+  message: string;
+  photoId?: number; // Photo revealed when it's unwrapped
 }
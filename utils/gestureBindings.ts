@@ -0,0 +1,75 @@
+import { GestureActionId, GestureBinding, GestureId } from '../types';
+
+// Which hand pose does what. MediaPipe's recognizer scores a handful of named
+// poses; two more come from finger geometry. Each pose is bound to at most
+// one action and only fires once its score reaches the binding's threshold.
+
+export interface GestureDef {
+  id: GestureId;
+  label: string;
+  source: 'model' | 'shape'; // Recognizer category, or measured from the landmarks
+}
+
+export const GESTURES: GestureDef[] = [
+  { id: 'Thumb_Up', label: 'Thumb Up', source: 'model' },
+  { id: 'Victory', label: 'Victory', source: 'model' },
+  { id: 'Pointing_Up', label: 'Pointing Up', source: 'model' },
+  { id: 'ILoveYou', label: 'I Love You', source: 'model' },
+  { id: 'Closed_Fist', label: 'Closed Fist', source: 'model' },
+  { id: 'Open_Palm', label: 'Open Palm', source: 'model' },
+  { id: 'fist', label: 'Fist Shape', source: 'shape' },
+  { id: 'openHand', label: 'Open Hand Shape', source: 'shape' },
+];
+
+export interface GestureActionDef {
+  id: GestureActionId;
+  label: string;
+  changesMode: boolean; // Starts the cooldown, see utils/gestureMachine.ts
+}
+
+export const GESTURE_ACTIONS: GestureActionDef[] = [
+  { id: 'none', label: 'Nothing', changesMode: false },
+  { id: 'formTree', label: 'Form Tree', changesMode: true },
+  { id: 'explodeTree', label: 'Explode Tree', changesMode: true },
+  { id: 'toggleMode', label: 'Toggle Form', changesMode: true },
+  { id: 'nextPhoto', label: 'Next Photo', changesMode: false },
+  { id: 'toggleGoldDust', label: 'Toggle Gold Dust', changesMode: false },
+  { id: 'nextTheme', label: 'Next Theme', changesMode: false },
+  { id: 'screenshot', label: 'Screenshot', changesMode: false },
+];
+
+export const getGestureAction = (id: GestureActionId): GestureActionDef =>
+  GESTURE_ACTIONS.find(action => action.id === id) ?? GESTURE_ACTIONS[0];
+
+export const getGesture = (id: GestureId): GestureDef =>
+  GESTURES.find(gesture => gesture.id === id) ?? GESTURES[0];
+
+// Range of a binding's threshold; the lowest stays above the largest release margin
+export const THRESHOLD_LIMITS = { min: 0.3, max: 1, step: 0.05 };
+
+// The shape bindings match the original fist-to-form, open-to-explode controls:
+// three of four fingers curled, or two of four extended
+export const DEFAULT_GESTURE_BINDINGS: GestureBinding[] = [
+  { gesture: 'Thumb_Up', action: 'nextPhoto', threshold: 0.7 },
+  { gesture: 'Victory', action: 'nextTheme', threshold: 0.7 },
+  { gesture: 'Pointing_Up', action: 'none', threshold: 0.7 },
+  { gesture: 'ILoveYou', action: 'toggleGoldDust', threshold: 0.7 },
+  { gesture: 'Closed_Fist', action: 'none', threshold: 0.6 },
+  { gesture: 'Open_Palm', action: 'none', threshold: 0.6 },
+  { gesture: 'fist', action: 'formTree', threshold: 0.75 },
+  { gesture: 'openHand', action: 'explodeTree', threshold: 0.5 },
+];
+
+// Bindings whose pose scores at or over its threshold this frame. The shape
+// heuristics also match most named poses (a thumbs-up is mostly a fist), so
+// they stand down while a bound recognizer category is firing.
+export const matchGestures = (
+  bindings: GestureBinding[],
+  scores: Partial<Record<GestureId, number>>
+): GestureBinding[] => {
+  const matched = bindings.filter(binding =>
+    binding.action !== 'none' && (scores[binding.gesture] ?? 0) >= binding.threshold
+  );
+  const recognized = matched.some(binding => getGesture(binding.gesture).source === 'model');
+  return recognized ? matched.filter(binding => getGesture(binding.gesture).source === 'model') : matched;
+};
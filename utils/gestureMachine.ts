@@ -0,0 +1,99 @@
+import { GestureBinding, GestureId, GestureTimings } from '../types';
+import { getGesture, getGestureAction, matchGestures } from './gestureBindings';
+
+// Debounces hand poses into actions. A pose that matches its binding starts
+// a hold; only once it has been held for holdMs does its action fire, once.
+// It then has to be let go before it can fire again. Letting go takes a
+// lower score than matching did, so a pose hovering around its threshold
+// doesn't flicker in and out. Mode changes are followed by a cooldown, so
+// passing through one pose on the way to another can't undo them.
+
+export const DEFAULT_GESTURE_TIMINGS: GestureTimings = {
+  holdMs: 400,
+  cooldownMs: 1200,
+  // The shape poses score in quarters, so smaller margins don't change them
+  releaseMargin: 0.25,
+};
+
+export const GESTURE_TIMING_LIMITS: Record<keyof GestureTimings, { min: number; max: number; step: number }> = {
+  holdMs: { min: 0, max: 1500, step: 50 },
+  cooldownMs: { min: 0, max: 3000, step: 100 },
+  // Kept under the lowest binding threshold, so a held pose always has a release score above 0
+  releaseMargin: { min: 0, max: 0.25, step: 0.05 },
+};
+
+export type GesturePhase = 'idle' | 'holding' | 'fired';
+
+export interface GestureMachine {
+  phase: GesturePhase;
+  binding: GestureBinding | null; // The pose being held, outside 'idle'
+  since: number; // When the hold started, ms
+  cooldownUntil: number;
+}
+
+export interface GestureStep {
+  fired: GestureBinding | null; // Binding whose action should run this frame
+  progress: number; // 0..1 through the current hold, for the overlay
+}
+
+export const createGestureMachine = (): GestureMachine => ({
+  phase: 'idle',
+  binding: null,
+  since: 0,
+  cooldownUntil: 0,
+});
+
+const release = (machine: GestureMachine) => {
+  machine.phase = 'idle';
+  machine.binding = null;
+};
+
+// Feed one frame of pose scores. An empty score set (hand lost, or paused)
+// lets go of whatever was held but keeps any cooldown running.
+export const stepGestureMachine = (
+  machine: GestureMachine,
+  bindings: GestureBinding[],
+  scores: Partial<Record<GestureId, number>>,
+  now: number,
+  timings: GestureTimings
+): GestureStep => {
+  const matched = matchGestures(bindings, scores);
+
+  // Let go once the held pose falls below its release score, or its binding changed.
+  // The release score never drops below half the threshold, so a lost hand
+  // (a score of 0) always lets go.
+  if (machine.binding) {
+    const current = bindings.find(binding => binding.gesture === machine.binding!.gesture);
+    const score = scores[machine.binding.gesture] ?? 0;
+    if (!current || current.action !== machine.binding.action || score <= 0
+        || score < Math.max(current.threshold - timings.releaseMargin, current.threshold * 0.5)) {
+      release(machine);
+    }
+  }
+
+  // A recognized pose outranks a shape heuristic that was still held, whether
+  // or not it has fired (a thumbs-up still scores as most of a fist)
+  if (machine.binding && getGesture(machine.binding.gesture).source === 'shape'
+      && matched.some(binding => getGesture(binding.gesture).source === 'model')) {
+    release(machine);
+  }
+
+  if (machine.phase === 'idle') {
+    if (matched.length === 0 || now < machine.cooldownUntil) return { fired: null, progress: 0 };
+    machine.phase = 'holding';
+    machine.binding = matched[0];
+    machine.since = now;
+  }
+
+  if (machine.phase === 'holding') {
+    const held = now - machine.since;
+    if (held < timings.holdMs) return { fired: null, progress: held / timings.holdMs };
+    machine.phase = 'fired';
+    if (getGestureAction(machine.binding!.action).changesMode) {
+      machine.cooldownUntil = now + timings.cooldownMs;
+    }
+    return { fired: machine.binding, progress: 1 };
+  }
+
+  return { fired: null, progress: 1 };
+};
@@ -0,0 +1,6 @@
+// Type guards for checking parsed JSON, e.g. from localStorage or a manifest
+
+// A plain object whose fields still need checking one by one
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
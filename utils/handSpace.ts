@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+import { TrackedHand } from '../types';
+
+// Hand landmarks lifted into the scene. Each landmark is cast from the camera
+// onto a camera-facing plane through the origin, so the hand floats at the
+// tree's depth wherever the camera has orbited to.
+
+// MediaPipe landmark indices
+const INDEX_MCP = 5;
+const INDEX_TIP = 8;
+const PALM_POINTS = [0, 5, 9, 13, 17];
+
+// World units per unit of MediaPipe relative depth
+const DEPTH_SCALE = 8;
+
+export interface SceneHand {
+  points: THREE.Vector3[];
+  palm: THREE.Vector3;
+  indexTip: THREE.Vector3;
+  pointing: THREE.Vector3; // Unit direction from the index knuckle to its tip
+  facing: THREE.Vector3; // Unit camera view direction, the axis to swirl around
+}
+
+export const createSceneHand = (): SceneHand => ({
+  points: Array.from({ length: 21 }, () => new THREE.Vector3()),
+  palm: new THREE.Vector3(),
+  indexTip: new THREE.Vector3(),
+  pointing: new THREE.Vector3(0, 1, 0),
+  facing: new THREE.Vector3(0, 0, -1),
+});
+
+const ORIGIN = new THREE.Vector3();
+const plane = new THREE.Plane();
+const ray = new THREE.Ray();
+const ndc = new THREE.Vector3();
+
+// Fill `target` from the tracked hand. Returns false when there is no hand.
+export const projectHand = (hand: TrackedHand, camera: THREE.Camera, target: SceneHand): boolean => {
+  if (!hand.active || hand.landmarks.length < 21) return false;
+
+  camera.getWorldDirection(target.facing);
+  plane.setFromNormalAndCoplanarPoint(target.facing, ORIGIN);
+
+  hand.landmarks.forEach((landmark, i) => {
+    ndc.set(landmark.x, landmark.y, 0.5).unproject(camera);
+    ray.origin.setFromMatrixPosition(camera.matrixWorld);
+    ray.direction.copy(ndc).sub(ray.origin).normalize();
+    const point = target.points[i];
+    // Looking away from the origin: fall back to a fixed distance along the ray
+    if (!ray.intersectPlane(plane, point)) ray.at(10, point);
+    point.addScaledVector(target.facing, landmark.z * DEPTH_SCALE);
+  });
+
+  target.palm.set(0, 0, 0);
+  PALM_POINTS.forEach(i => target.palm.add(target.points[i]));
+  target.palm.divideScalar(PALM_POINTS.length);
+  target.indexTip.copy(target.points[INDEX_TIP]);
+  target.pointing.subVectors(target.points[INDEX_TIP], target.points[INDEX_MCP]).normalize();
+  return true;
+};
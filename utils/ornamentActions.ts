@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { OrnamentAction } from '../types';
+
+// Click reactions for the generated ornaments. Each ornament carries a small
+// OrnamentMotion that LuxuryTree steps every frame and layers on top of its
+// position on the tree, so reactions work the same in every mode.
+
+export const ORNAMENT_ACTIONS: OrnamentAction[] = ['spin', 'jingle', 'pop'];
+
+export const ORNAMENT_ACTION_LABELS: Record<OrnamentAction, string> = {
+  spin: 'Spins',
+  jingle: 'Jingles',
+  pop: 'Pops off and back',
+};
+
+// Holding a press this long opens the details card instead of clicking
+export const LONG_PRESS_MS = 550;
+// Pixels a press may drift before it counts as a drag of the tree
+export const PRESS_MOVE_TOLERANCE = 8;
+
+const SPIN_SPEED = 25; // rad/s, decays
+const JINGLE_DURATION = 1.0;
+const POP_DURATION = 1.6;
+const POP_DISTANCE = 2.5;
+
+export interface OrnamentMotion {
+  spin: number; // Extra spin speed around Y
+  angle: number; // Extra Y rotation accumulated from spinning
+  jingle: number; // Seconds of shaking left
+  pop: number; // Seconds into a pop, -1 when attached
+}
+
+export const createOrnamentMotion = (): OrnamentMotion => ({ spin: 0, angle: 0, jingle: 0, pop: -1 });
+
+export const triggerOrnamentAction = (motion: OrnamentMotion, action: OrnamentAction) => {
+  switch (action) {
+    case 'spin':
+      motion.spin = SPIN_SPEED;
+      break;
+    case 'jingle':
+      motion.jingle = JINGLE_DURATION;
+      playJingle();
+      break;
+    case 'pop':
+      // Ignore repeat clicks mid-flight
+      if (motion.pop < 0) motion.pop = 0;
+      break;
+  }
+};
+
+const outward = new THREE.Vector3();
+
+// Advance `motion` and apply it to `object`, which already holds the ornament's
+// resting position and rotation. `anchor` is that resting position.
+export const applyOrnamentMotion = (motion: OrnamentMotion, object: THREE.Object3D, anchor: THREE.Vector3, delta: number) => {
+  if (motion.spin > 0.01) {
+    motion.angle += motion.spin * delta;
+    motion.spin *= Math.exp(-delta * 1.5);
+  } else {
+    motion.spin = 0;
+  }
+  object.rotation.y += motion.angle;
+
+  if (motion.jingle > 0) {
+    const decay = motion.jingle / JINGLE_DURATION;
+    object.rotation.z += Math.sin(motion.jingle * 45) * 0.5 * decay;
+    motion.jingle = Math.max(0, motion.jingle - delta);
+  }
+
+  if (motion.pop >= 0) {
+    // Out away from the trunk and a little up, then back onto its spot
+    const k = motion.pop / POP_DURATION;
+    outward.set(anchor.x, 0, anchor.z).normalize().setY(0.6).normalize();
+    object.position.addScaledVector(outward, Math.sin(Math.PI * k) * POP_DISTANCE);
+    object.rotation.x += k * Math.PI * 4;
+    motion.pop += delta;
+    if (motion.pop >= POP_DURATION) motion.pop = -1;
+  }
+};
+
+// --- SOUND ---
+
+let audio: AudioContext | null = null;
+
+// A short sleigh-bell chime, synthesized so there is no asset to ship
+const playJingle = () => {
+  try {
+    audio ??= new AudioContext();
+    if (audio.state === 'suspended') audio.resume();
+    const now = audio.currentTime;
+    [1568, 2093, 2637, 3136].forEach((freq, i) => {
+      const start = now + i * 0.04;
+      const osc = audio!.createOscillator();
+      const gain = audio!.createGain();
+      osc.type = 'sine';
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.08, start);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.6);
+      osc.connect(gain).connect(audio!.destination);
+      osc.start(start);
+      osc.stop(start + 0.65);
+    });
+  } catch (err) {
+    console.warn("Jingle unavailable:", err);
+  }
+};
@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+
+// Spring-damper motion for the generated ornaments. Each ornament is pulled
+// toward its target by a spring; light damping lets it overshoot and wobble
+// before it settles.
+
+// Fraction of critical damping. Below 1 overshoots.
+const DAMPING_RATIO = 0.4;
+// Keeps long CHAOS flights from becoming a blur
+const MAX_SPEED = 25;
+// Largest integration step; longer frames are split up
+const MAX_STEP = 1 / 60;
+
+const offset = new THREE.Vector3();
+
+// Advance one ornament. `stiffness` is the spring's angular frequency (rad/s).
+export const stepSpring = (
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  target: THREE.Vector3,
+  stiffness: number,
+  delta: number
+) => {
+  // Tab switches can hand us huge deltas
+  const total = Math.min(delta, 0.1);
+  const steps = Math.ceil(total / MAX_STEP);
+  const dt = total / steps;
+  const k = stiffness * stiffness;
+  const c = 2 * DAMPING_RATIO * stiffness;
+
+  for (let i = 0; i < steps; i++) {
+    // Semi-implicit Euler: velocity first, then position
+    offset.subVectors(target, position);
+    velocity.addScaledVector(offset, k * dt).multiplyScalar(Math.max(0, 1 - c * dt));
+    velocity.clampLength(0, MAX_SPEED);
+    position.addScaledVector(velocity, dt);
+  }
+};
+
+// Push away from `origin`, strongest close to it
+export const applyRadialImpulse = (
+  position: THREE.Vector3,
+  velocity: THREE.Vector3,
+  origin: THREE.Vector3,
+  strength: number
+) => {
+  offset.subVectors(position, origin);
+  const distance = offset.length();
+  // Ornaments right on the origin still need a direction
+  if (distance < 1e-4) offset.set(0, 1, 0);
+  velocity.addScaledVector(offset.normalize(), strength / (1 + distance * 0.3));
+};
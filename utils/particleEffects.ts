@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+
+// One-shot particle effects: fireworks, sparks, confetti. Anything in the
+// scene can queue an emission; ParticleEffects drains the queue each frame
+// into a shared instanced pool. Effects are decoration only, so they use
+// Math.random rather than the tree's seeded streams.
+
+export type EffectPresetId = 'burst' | 'fountain' | 'trail' | 'ring';
+
+// What one emission looks like. Requests can override any of these.
+export interface EffectSettings {
+  count: number; // Particles per emission
+  life: [number, number]; // Seconds, min to max
+  speed: [number, number]; // Launch speed, min to max
+  spread: number; // Start jitter around the emission point
+  duration: number; // Launches are staggered over this many seconds; 0 fires them all at once
+  gravity: number; // Vertical acceleration; negative falls
+  drag: number; // Velocity lost per second, as a rate
+  size: number; // Starting edge length; shrinks to nothing over the particle's life
+  spin: number; // Tumble rate, rad/s
+  glow: number; // Color multiplier; above 1 catches the bloom
+  colors: string[];
+}
+
+export interface EffectPreset extends EffectSettings {
+  id: EffectPresetId;
+  label: string;
+  // Unit launch direction for one particle around the emission axis
+  launch: (axis: THREE.Vector3, out: THREE.Vector3) => THREE.Vector3;
+}
+
+export interface EffectRequest extends Partial<EffectSettings> {
+  preset: EffectPresetId;
+  position: THREE.Vector3; // World space; copied when queued
+  axis?: THREE.Vector3; // Defaults to straight up
+}
+
+const randomUnit = (out: THREE.Vector3) => {
+  const z = Math.random() * 2 - 1;
+  const a = Math.random() * Math.PI * 2;
+  const r = Math.sqrt(1 - z * z);
+  return out.set(r * Math.cos(a), r * Math.sin(a), z);
+};
+
+export const EFFECT_PRESETS: Record<EffectPresetId, EffectPreset> = {
+  // Firework shell: everything at once, in every direction
+  burst: {
+    id: 'burst',
+    label: 'Burst',
+    count: 220,
+    life: [1.2, 2.2],
+    speed: [4, 9],
+    spread: 0.1,
+    duration: 0,
+    gravity: -3,
+    drag: 1.4,
+    size: 0.12,
+    spin: 4,
+    glow: 3,
+    colors: ['#FFD700', '#FFF5C0', '#FFFFFF', '#FFB347'],
+    launch: (axis, out) => randomUnit(out),
+  },
+  // A jet up the axis that falls back under gravity
+  fountain: {
+    id: 'fountain',
+    label: 'Fountain',
+    count: 160,
+    life: [1, 1.6],
+    speed: [5, 8],
+    spread: 0.15,
+    duration: 1.2,
+    gravity: -9,
+    drag: 0.3,
+    size: 0.1,
+    spin: 3,
+    glow: 2.5,
+    colors: ['#FFD700', '#FFFFFF'],
+    launch: (axis, out) => randomUnit(out).multiplyScalar(0.35).add(axis).normalize(),
+  },
+  // A few slow sparks; emit every frame along a moving point
+  trail: {
+    id: 'trail',
+    label: 'Trail',
+    count: 3,
+    life: [0.4, 0.9],
+    speed: [0.3, 1.2],
+    spread: 0.05,
+    duration: 0,
+    gravity: -1.5,
+    drag: 2,
+    size: 0.08,
+    spin: 6,
+    glow: 3,
+    colors: ['#FFD700', '#FFF5C0'],
+    launch: (axis, out) => randomUnit(out),
+  },
+  // A flat shockwave around the axis
+  ring: {
+    id: 'ring',
+    label: 'Ring',
+    count: 120,
+    life: [0.8, 1.2],
+    speed: [6, 7],
+    spread: 0,
+    duration: 0,
+    gravity: 0,
+    drag: 2.5,
+    size: 0.1,
+    spin: 2,
+    glow: 3,
+    colors: ['#FFFFFF', '#FFD700'],
+    launch: (axis, out) => randomUnit(out).cross(axis).normalize(),
+  },
+};
+
+// A burst tuned to look like paper rather than sparks
+export const CONFETTI: Partial<EffectSettings> = {
+  count: 180,
+  life: [2.2, 3.2],
+  speed: [3, 7],
+  gravity: -4,
+  drag: 1.8,
+  size: 0.16,
+  spin: 9,
+  glow: 1,
+  colors: ['#D32F2F', '#FFD700', '#2E7D32', '#1E88E5', '#F5F5F5', '#EC407A'],
+};
+
+// Requests waiting for the next frame of ParticleEffects
+export interface EffectQueue {
+  pending: EffectRequest[];
+}
+
+// A runaway emitter shouldn't grow the queue without bound
+const MAX_PENDING = 64;
+const UP = new THREE.Vector3(0, 1, 0);
+
+export const createEffectQueue = (): EffectQueue => ({ pending: [] });
+
+export const emitEffect = (queue: EffectQueue, request: EffectRequest) => {
+  if (queue.pending.length >= MAX_PENDING) return;
+  queue.pending.push({
+    ...request,
+    position: request.position.clone(),
+    axis: (request.axis ?? UP).clone().normalize(),
+  });
+};
+
+// Preset defaults with the request's overrides on top
+export const resolveEffect = (request: EffectRequest): EffectPreset => {
+  const { preset, position, axis, ...overrides } = request;
+  return { ...EFFECT_PRESETS[preset], ...overrides };
+};
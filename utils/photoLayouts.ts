@@ -0,0 +1,254 @@
+import * as THREE from 'three';
+import { PhotoData, PhotoLayoutId } from '../types';
+import { Random, randomDirection } from './random';
+
+// How photos are arranged on the tree. Each layout places every photo in both
+// modes and describes the gold rail(s) the frames hang from.
+
+export interface PhotoLayoutParams {
+  radius: number; // Radius of the photo cone at its base
+  height: number;
+  turns: number; // Only meaningful for path-following layouts
+  photos: PhotoData[];
+  random: Random; // Seeded source for scatter and CHAOS positions
+}
+
+export interface PhotoPlacement {
+  targetPos: THREE.Vector3;
+  targetRot: THREE.Quaternion;
+  chaosPos: THREE.Vector3;
+  chaosRot: THREE.Euler;
+  railPos: THREE.Vector3 | null; // Where the hanger meets the rail, null if the photo floats free
+}
+
+export interface RailPath {
+  curve: THREE.Curve<THREE.Vector3>;
+  closed: boolean;
+}
+
+export interface PhotoLayout {
+  placements: PhotoPlacement[]; // Same order as params.photos
+  rails: RailPath[]; // Empty hides the rail
+}
+
+export interface PhotoLayoutStrategy {
+  id: PhotoLayoutId;
+  label: string;
+  build: (params: PhotoLayoutParams) => PhotoLayout;
+}
+
+// Gap between the rail and the back of a frame
+const RAIL_OFFSET = 0.035;
+// Minimum distance between frame centers on the cone surface
+const FRAME_SPACING = 1.7;
+// Widest a date cluster's rail may wrap; a full turn would close it into a ring
+const MAX_CLUSTER_ARC = Math.PI * 1.9;
+
+// --- CONE HELPERS ---
+
+// Radius of the photo cone at normalized height t (0 = base, 1 = tip)
+const coneRadiusAt = (radius: number, t: number) => radius * (1 - t * 0.8) + 0.5;
+const coneHeightAt = (height: number, t: number) => (t * height) - (height / 2) + 0.5;
+
+const conePoint = (params: PhotoLayoutParams, t: number, angle: number) => {
+  const r = coneRadiusAt(params.radius, t);
+  return new THREE.Vector3(Math.cos(angle) * r, coneHeightAt(params.height, t), Math.sin(angle) * r);
+};
+
+// Frame position and rotation for a photo hanging at `point`, facing away from the trunk
+const hangOutward = (point: THREE.Vector3) => {
+  const normal = new THREE.Vector3(point.x, 0, point.z).normalize();
+  const targetPos = point.clone().add(normal.clone().multiplyScalar(RAIL_OFFSET));
+  const dummyObj = new THREE.Object3D();
+  dummyObj.position.copy(targetPos);
+  dummyObj.lookAt(targetPos.clone().add(normal));
+  return { targetPos, targetRot: dummyObj.quaternion.clone() };
+};
+
+const randomChaosRot = (random: Random) => new THREE.Euler(
+  random() * Math.PI,
+  random() * Math.PI,
+  random() * Math.PI
+);
+
+// Horizontal circle around the trunk at normalized height t
+const ringCurve = (params: PhotoLayoutParams, t: number, fromAngle = 0, toAngle = Math.PI * 2) => {
+  const points = [];
+  const steps = Math.max(8, Math.ceil(Math.abs(toAngle - fromAngle) * 16));
+  const closed = Math.abs(toAngle - fromAngle) >= Math.PI * 2;
+  for (let i = 0; i < (closed ? steps : steps + 1); i++) {
+    points.push(conePoint(params, t, fromAngle + (toAngle - fromAngle) * (i / steps)));
+  }
+  return new THREE.CatmullRomCurve3(points, closed);
+};
+
+// --- STRATEGIES ---
+
+// The original helix: photos at even steps along a single rail wound round the cone
+const spiralLayout: PhotoLayoutStrategy = {
+  id: 'spiral',
+  label: 'Spiral',
+  build: (params) => {
+    const { turns, photos, random } = params;
+    const points = [];
+    const steps = 300;
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      points.push(conePoint(params, t, t * Math.PI * 2 * turns));
+    }
+    const curve = new THREE.CatmullRomCurve3(points);
+
+    const placements = photos.map((_, i) => {
+      // A single photo sits in the middle of the rail
+      const t = photos.length > 1 ? 0.1 + (i / (photos.length - 1)) * 0.8 : 0.5;
+      const railPos = curve.getPointAt(t);
+      return {
+        ...hangOutward(railPos),
+        chaosPos: new THREE.Vector3(
+          (random() - 0.5) * 20,
+          (random() - 0.5) * 20 + 5,
+          (random() - 0.5) * 20
+        ),
+        chaosRot: randomChaosRot(random),
+        railPos,
+      };
+    });
+
+    return { placements, rails: [{ curve, closed: false }] };
+  },
+};
+
+// Horizontal garlands stacked up the cone. Wider rings near the base hold more photos.
+const ringsLayout: PhotoLayoutStrategy = {
+  id: 'rings',
+  label: 'Rings',
+  build: (params) => {
+    const { photos, random } = params;
+    const ringCount = THREE.MathUtils.clamp(Math.round(Math.sqrt(photos.length / 1.5)), 1, 6);
+    const ringTs = Array.from({ length: ringCount }, (_, i) => ringCount > 1 ? 0.12 + (i / (ringCount - 1)) * 0.66 : 0.4);
+
+    // Share photos out in proportion to circumference
+    const circumferences = ringTs.map(t => coneRadiusAt(params.radius, t));
+    const total = circumferences.reduce((a, b) => a + b, 0);
+    const counts = circumferences.map(c => Math.floor((c / total) * photos.length));
+    for (let i = 0, left = photos.length - counts.reduce((a, b) => a + b, 0); left > 0; i = (i + 1) % ringCount, left--) {
+      counts[i]++;
+    }
+
+    const placements: PhotoPlacement[] = [];
+    ringTs.forEach((t, ring) => {
+      // Stagger alternate rings so frames don't line up in columns
+      const offset = ring % 2 === 0 ? 0 : Math.PI / Math.max(1, counts[ring]);
+      for (let j = 0; j < counts[ring]; j++) {
+        const angle = offset + (j / counts[ring]) * Math.PI * 2;
+        const railPos = conePoint(params, t, angle);
+        // CHAOS: each ring bursts outward in its own plane
+        const burst = 10 + random() * 6;
+        placements.push({
+          ...hangOutward(railPos),
+          chaosPos: new THREE.Vector3(Math.cos(angle) * burst, railPos.y * 1.8 + 5, Math.sin(angle) * burst),
+          chaosRot: randomChaosRot(random),
+          railPos,
+        });
+      }
+    });
+
+    const rails = ringTs
+      .filter((_, ring) => counts[ring] > 0)
+      .map(t => ({ curve: ringCurve(params, t), closed: true }));
+
+    return { placements, rails };
+  },
+};
+
+// Photos pinned at random over the cone surface, with no rail
+const scatterLayout: PhotoLayoutStrategy = {
+  id: 'scatter',
+  label: 'Scatter',
+  build: (params) => {
+    const { random } = params;
+    const placed: THREE.Vector3[] = [];
+    const placements = params.photos.map(() => {
+      // Best of a few candidates: the one furthest from its nearest neighbour
+      let best = conePoint(params, 0.1, 0);
+      let bestGap = -1;
+      for (let attempt = 0; attempt < 24; attempt++) {
+        const candidate = conePoint(params, 0.08 + random() * 0.77, random() * Math.PI * 2);
+        const gap = placed.reduce((min, p) => Math.min(min, p.distanceTo(candidate)), Infinity);
+        if (gap > bestGap) {
+          best = candidate;
+          bestGap = gap;
+        }
+        if (gap >= FRAME_SPACING) break;
+      }
+      placed.push(best);
+
+      // CHAOS: a loose shell around the tree
+      const dir = randomDirection(random);
+      return {
+        ...hangOutward(best),
+        chaosPos: dir.multiplyScalar(11 + random() * 5).add(new THREE.Vector3(0, 4, 0)),
+        chaosRot: randomChaosRot(random),
+        railPos: null,
+      };
+    });
+
+    return { placements, rails: [] };
+  },
+};
+
+// Photos taken on the same day hang together on a short garland. Groups run
+// chronologically up the tree; undated photos form the last group.
+const dateClusterLayout: PhotoLayoutStrategy = {
+  id: 'dateClusters',
+  label: 'By Date',
+  build: (params) => {
+    const { photos, turns, random } = params;
+    const groups = new Map<string, number[]>();
+    photos.forEach((photo, i) => {
+      const key = photo.date ? photo.date.slice(0, 10) : '';
+      groups.set(key, [...(groups.get(key) ?? []), i]);
+    });
+    const ordered = [...groups.entries()].sort(([a], [b]) => {
+      if (!a) return 1;
+      if (!b) return -1;
+      return a.localeCompare(b);
+    });
+
+    const placements: PhotoPlacement[] = new Array(photos.length);
+    const rails: RailPath[] = [];
+    ordered.forEach(([, indices], cluster) => {
+      const t = ordered.length > 1 ? 0.1 + (cluster / (ordered.length - 1)) * 0.75 : 0.4;
+      const center = t * Math.PI * 2 * turns;
+      // A big day crowds its frames rather than wrapping past a full turn
+      const step = Math.min(FRAME_SPACING / coneRadiusAt(params.radius, t), MAX_CLUSTER_ARC / indices.length);
+      const from = center - (step * (indices.length - 1)) / 2;
+
+      // CHAOS: each cluster drifts off as a group
+      const chaosCenter = randomDirection(random).multiplyScalar(12);
+      chaosCenter.y = Math.abs(chaosCenter.y) * 0.6 + 2;
+
+      indices.forEach((photoIndex, j) => {
+        const railPos = conePoint(params, t, from + j * step);
+        placements[photoIndex] = {
+          ...hangOutward(railPos),
+          chaosPos: chaosCenter.clone().add(randomDirection(random).multiplyScalar(1.5 + random())),
+          chaosRot: randomChaosRot(random),
+          railPos,
+        };
+      });
+
+      // Runs half a frame past each end, so a lone photo still gets a stub to hang from
+      const pad = step * 0.5;
+      rails.push({ curve: ringCurve(params, t, from - pad, from + step * (indices.length - 1) + pad), closed: false });
+    });
+
+    return { placements, rails };
+  },
+};
+
+export const PHOTO_LAYOUTS: PhotoLayoutStrategy[] = [spiralLayout, ringsLayout, scatterLayout, dateClusterLayout];
+
+export const getPhotoLayout = (id: PhotoLayoutId): PhotoLayoutStrategy => {
+  return PHOTO_LAYOUTS.find(layout => layout.id === id) ?? spiralLayout;
+};
@@ -0,0 +1,125 @@
+import { FrameStyle, PhotoManifest, PhotoManifestEntry } from '../types';
+import { isRecord } from './guards';
+
+// Current manifest format. Bump when the entry shape changes incompatibly.
+export const MANIFEST_VERSION = 1;
+
+// Raised when a manifest cannot be used. `issues` holds one readable line per problem.
+export class ManifestError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n${issues.join('\n')}` : message);
+    this.name = 'ManifestError';
+    this.issues = issues;
+  }
+}
+
+const OPTIONAL_TEXT_FIELDS = ['caption', 'location', 'credit', 'video'] as const;
+
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v|ogv)([?#]|$)/i;
+
+// Whether a manifest `src` points at a clip rather than a still
+export const isVideoSource = (src: string) => VIDEO_EXTENSIONS.test(src);
+
+// Accepts any CSS color the browser understands, e.g. "#FAFAFA" or "gold"
+const isCssColor = (value: string) => {
+  return typeof CSS !== 'undefined' && CSS.supports ? CSS.supports('color', value) : /^#[0-9a-f]{3,8}$/i.test(value);
+};
+
+const validateEntry = (raw: unknown, index: number, issues: string[]): PhotoManifestEntry | null => {
+  const label = `photos[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push(`${label}: expected an object`);
+    return null;
+  }
+
+  const entryIssues: string[] = [];
+
+  if (typeof raw.src !== 'string' || raw.src.trim() === '') {
+    entryIssues.push('"src" must be a non-empty string');
+  }
+
+  OPTIONAL_TEXT_FIELDS.forEach(field => {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      entryIssues.push(`"${field}" must be a string`);
+    }
+  });
+
+  if (raw.date !== undefined) {
+    if (typeof raw.date !== 'string' || Number.isNaN(Date.parse(raw.date))) {
+      entryIssues.push('"date" must be an ISO date string such as "2024-12-24"');
+    }
+  }
+
+  if (raw.frameColor !== undefined) {
+    if (typeof raw.frameColor !== 'string' || !isCssColor(raw.frameColor)) {
+      entryIssues.push('"frameColor" must be a CSS color');
+    }
+  }
+
+  const frameStyles = Object.values(FrameStyle) as string[];
+  if (raw.frameStyle !== undefined && !frameStyles.includes(raw.frameStyle as string)) {
+    entryIssues.push(`"frameStyle" must be one of ${frameStyles.map(f => `"${f}"`).join(', ')}`);
+  }
+
+  if (entryIssues.length > 0) {
+    entryIssues.forEach(issue => issues.push(`${label}: ${issue}`));
+    return null;
+  }
+
+  return {
+    src: raw.src as string,
+    video: raw.video as string | undefined,
+    caption: raw.caption as string | undefined,
+    date: raw.date as string | undefined,
+    location: raw.location as string | undefined,
+    credit: raw.credit as string | undefined,
+    frameColor: raw.frameColor as string | undefined,
+    frameStyle: raw.frameStyle as FrameStyle | undefined,
+  };
+};
+
+// Validate parsed JSON against the manifest format. Throws a ManifestError
+// listing every bad entry rather than stopping at the first one.
+export const parsePhotoManifest = (raw: unknown): PhotoManifest => {
+  if (!isRecord(raw)) {
+    throw new ManifestError('Photo manifest must be a JSON object');
+  }
+  if (raw.version !== MANIFEST_VERSION) {
+    throw new ManifestError(`Unsupported photo manifest version "${String(raw.version)}" (expected ${MANIFEST_VERSION})`);
+  }
+  if (!Array.isArray(raw.photos)) {
+    throw new ManifestError('Photo manifest must have a "photos" array');
+  }
+
+  const issues: string[] = [];
+  const photos = raw.photos.map((entry, i) => validateEntry(entry, i, issues));
+  if (issues.length > 0) {
+    throw new ManifestError('Photo manifest has invalid entries', issues);
+  }
+
+  return { version: MANIFEST_VERSION, photos: photos as PhotoManifestEntry[] };
+};
+
+export const parsePhotoManifestText = (text: string): PhotoManifest => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ManifestError(`Photo manifest is not valid JSON: ${(err as Error).message}`);
+  }
+  return parsePhotoManifest(raw);
+};
+
+// Fetch a manifest from the server. Resolves to null if there is none.
+export const fetchPhotoManifest = async (url: string): Promise<PhotoManifest | null> => {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new ManifestError(`Failed to load photo manifest from ${url} (HTTP ${response.status})`);
+  }
+  // Dev servers answer unknown paths with index.html
+  if (!(response.headers.get('content-type') ?? '').includes('json')) return null;
+  return parsePhotoManifestText(await response.text());
+};
@@ -0,0 +1,165 @@
+import { StoredPhoto, PhotoManifest, FrameStyle } from '../types';
+
+// Local photo library backed by IndexedDB so uploads survive reloads
+// without a server. Keys are auto-incremented numbers so they can be used
+// directly as PhotoData ids.
+const DB_NAME = 'luxury-tree';
+const DB_VERSION = 3;
+const PHOTO_STORE = 'photos';
+// Generated spiral thumbnails, keyed by `${thumbnailKey}:${size}`
+const THUMBNAIL_STORE = 'thumbnails';
+// Key-value store for single records such as the imported manifest
+const SETTINGS_STORE = 'settings';
+const MANIFEST_KEY = 'manifest';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+          db.createObjectStore(PHOTO_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+        if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) {
+          db.createObjectStore(THUMBNAIL_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolve once every write in the transaction has been committed
+const committed = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listPhotos = async (): Promise<StoredPhoto[]> => {
+  const db = await openDB();
+  const tx = db.transaction(PHOTO_STORE, 'readonly');
+  const photos = await promisify(tx.objectStore(PHOTO_STORE).getAll() as IDBRequest<StoredPhoto[]>);
+  return photos.sort((a, b) => a.order - b.order);
+};
+
+export const addPhotos = async (files: File[]): Promise<void> => {
+  const images = files.filter(f => f.type.startsWith('image/') || f.type.startsWith('video/'));
+  if (images.length === 0) return;
+
+  const existing = await listPhotos();
+  let nextOrder = existing.length > 0 ? existing[existing.length - 1].order + 1 : 0;
+
+  const db = await openDB();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  images.forEach(file => {
+    store.add({
+      blob: file,
+      name: file.name,
+      order: nextOrder++,
+      createdAt: Date.now(),
+    });
+  });
+  await committed(tx);
+};
+
+// Cache key for thumbnails of an uploaded photo
+export const uploadThumbnailKey = (id: number) => `upload-${id}`;
+
+export const deletePhoto = async (id: number): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([PHOTO_STORE, THUMBNAIL_STORE], 'readwrite');
+  tx.objectStore(PHOTO_STORE).delete(id);
+  // Drop cached thumbnails of every size
+  const prefix = `${uploadThumbnailKey(id)}:`;
+  tx.objectStore(THUMBNAIL_STORE).delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+  await committed(tx);
+};
+
+// Per-photo frame style. Undefined falls back to the tree-wide style.
+export const setPhotoFrameStyle = async (id: number, frameStyle: FrameStyle | undefined): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  const photo = await promisify(store.get(id) as IDBRequest<StoredPhoto | undefined>);
+  if (photo) store.put({ ...photo, frameStyle });
+  await committed(tx);
+};
+
+// Swap a photo with its neighbour in display order, where `hidden` photos
+// (live photo clips) don't count. Done in one transaction against the stored
+// order, so quick repeated moves each see the last one. Every photo is
+// renumbered: shown ones in their new order, hidden ones after them.
+export const movePhoto = async (id: number, direction: -1 | 1, hidden: Set<number>): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  const photos = (await promisify(store.getAll() as IDBRequest<StoredPhoto[]>)).sort((a, b) => a.order - b.order);
+  const shown = photos.filter(p => !hidden.has(p.id));
+  const from = shown.findIndex(p => p.id === id);
+  const to = from + direction;
+  if (from >= 0 && to >= 0 && to < shown.length) {
+    [shown[from], shown[to]] = [shown[to], shown[from]];
+    [...shown, ...photos.filter(p => hidden.has(p.id))].forEach((photo, order) => {
+      if (photo.order !== order) store.put({ ...photo, order });
+    });
+  }
+  await committed(tx);
+};
+
+export const loadManifest = async (): Promise<PhotoManifest | null> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readonly');
+  const manifest = await promisify(tx.objectStore(SETTINGS_STORE).get(MANIFEST_KEY) as IDBRequest<PhotoManifest | undefined>);
+  return manifest ?? null;
+};
+
+export const saveManifest = async (manifest: PhotoManifest): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put(manifest, MANIFEST_KEY);
+  await committed(tx);
+};
+
+export const clearManifest = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).delete(MANIFEST_KEY);
+  await committed(tx);
+};
+
+export const getThumbnail = async (key: string): Promise<Blob | null> => {
+  const db = await openDB();
+  const tx = db.transaction(THUMBNAIL_STORE, 'readonly');
+  const blob = await promisify(tx.objectStore(THUMBNAIL_STORE).get(key) as IDBRequest<Blob | undefined>);
+  return blob ?? null;
+};
+
+export const saveThumbnail = async (key: string, blob: Blob): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(THUMBNAIL_STORE, 'readwrite');
+  tx.objectStore(THUMBNAIL_STORE).put(blob, key);
+  await committed(tx);
+};
@@ -0,0 +1,86 @@
+import { QualityTierId } from '../types';
+
+// What each tier spends on rendering. The governor in Scene moves one tier at
+// a time based on measured frame rate; the control panel can pin a tier.
+
+export interface QualityTier {
+  id: QualityTierId;
+  label: string;
+  foliageScale: number; // Multiplies TreeConfig.foliageCount
+  particleScale: number; // Gold dust, background stars, snow and effects
+  shadowMapSize: number; // Key light shadow map edge, 0 disables shadows
+  contactShadowResolution: number; // 0 hides the ground contact shadow
+  bloom: boolean;
+  vignette: boolean;
+  noise: boolean;
+  dpr: [number, number]; // Min and max device pixel ratio
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  {
+    id: 'low',
+    label: 'Low',
+    foliageScale: 0.35,
+    particleScale: 0.25,
+    shadowMapSize: 0,
+    contactShadowResolution: 0,
+    bloom: false,
+    vignette: true,
+    noise: false,
+    dpr: [0.75, 1],
+  },
+  {
+    id: 'medium',
+    label: 'Medium',
+    foliageScale: 0.6,
+    particleScale: 0.5,
+    shadowMapSize: 512,
+    contactShadowResolution: 256,
+    bloom: true,
+    vignette: true,
+    noise: false,
+    dpr: [1, 1.25],
+  },
+  {
+    id: 'high',
+    label: 'High',
+    foliageScale: 1,
+    particleScale: 1,
+    shadowMapSize: 1024,
+    contactShadowResolution: 512,
+    bloom: true,
+    vignette: true,
+    noise: true,
+    dpr: [1, 1.5],
+  },
+  {
+    id: 'ultra',
+    label: 'Ultra',
+    foliageScale: 1,
+    particleScale: 1,
+    shadowMapSize: 2048,
+    contactShadowResolution: 1024,
+    bloom: true,
+    vignette: true,
+    noise: true,
+    dpr: [1, 2],
+  },
+];
+
+// Where the governor starts on a device it hasn't measured yet
+export const DEFAULT_QUALITY_TIER: QualityTierId = 'high';
+
+export const getQualityTier = (id: QualityTierId): QualityTier => {
+  return QUALITY_TIERS.find(tier => tier.id === id) ?? QUALITY_TIERS.find(tier => tier.id === DEFAULT_QUALITY_TIER)!;
+};
+
+// Neighbouring tier, clamped at either end
+export const stepQualityTier = (id: QualityTierId, direction: 1 | -1): QualityTierId => {
+  const index = QUALITY_TIERS.findIndex(tier => tier.id === id);
+  const next = Math.min(QUALITY_TIERS.length - 1, Math.max(0, index + direction));
+  return QUALITY_TIERS[next].id;
+};
+
+export const isQualityTierId = (value: unknown): value is QualityTierId => {
+  return QUALITY_TIERS.some(tier => tier.id === value);
+};
@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+
+// Seeded randomness for everything that shapes the tree, so a seed always
+// rebuilds the same layout.
+
+export type Random = () => number;
+
+// Largest seed offered in the UI. Any 32-bit integer works.
+export const MAX_SEED = 999999;
+
+// mulberry32: tiny, fast and good enough for scattering particles
+export const createRandom = (seed: number): Random => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a hash, used to split one seed into independent named streams
+export const hashString = (str: string) => {
+  let h = 0x811C9DC5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Independent generator for one part of the scene. Each generator gets its own
+// stream so adding draws in one place doesn't reshuffle the others.
+export const createStream = (seed: number, name: string): Random => {
+  return createRandom(hashString(`${seed}:${name}`));
+};
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Uniform point on the unit sphere, like Vector3.randomDirection but seeded
+export const randomDirection = (random: Random, target = new THREE.Vector3()) => {
+  const u = (random() - 0.5) * 2;
+  const t = random() * Math.PI * 2;
+  const f = Math.sqrt(1 - u * u);
+  return target.set(f * Math.cos(t), u, f * Math.sin(t));
+};
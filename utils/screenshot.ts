@@ -0,0 +1,17 @@
+// Saves what the scene canvas is showing as a PNG download. The drawing buffer
+// isn't preserved, so call this in the same frame the scene was rendered.
+export const saveScreenshot = (canvas: HTMLCanvasElement) => {
+  canvas.toBlob(blob => {
+    if (!blob) {
+      console.warn("Screenshot failed: the canvas could not be encoded");
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `luxury-tree-${new Date().toISOString().replace(/[:.]/g, '-')}.png`;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, 'image/png');
+};
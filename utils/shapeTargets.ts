@@ -0,0 +1,172 @@
+import { ShapeTarget } from '../types';
+import { Random, hashString } from './random';
+
+// SHAPE mode targets. Each shape is drawn filled onto a small canvas and the
+// particles are scattered over the covered pixels, so text, built-in outlines
+// and uploaded SVG paths all go through the same sampler.
+
+export const SHAPE_KINDS: { kind: ShapeTarget['kind']; label: string }[] = [
+  { kind: 'text', label: 'Text' },
+  { kind: 'heart', label: 'Heart' },
+  { kind: 'star', label: 'Star' },
+  { kind: 'svg', label: 'SVG' },
+];
+
+// Raised when an uploaded SVG has nothing usable to sample
+export class ShapeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapeError';
+  }
+}
+
+interface ShapePath {
+  path: string;
+  bounds: [number, number, number, number];
+}
+
+const HEART: ShapePath = {
+  path: 'M75 40 C75 37 70 25 50 25 C20 25 20 62.5 20 62.5 C20 80 40 102 75 120 C110 102 130 80 130 62.5 C130 62.5 130 25 100 25 C85 25 75 37 75 40 Z',
+  bounds: [20, 25, 110, 95],
+};
+
+const STAR: ShapePath = (() => {
+  const points = Array.from({ length: 10 }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    const r = i % 2 === 0 ? 50 : 20;
+    return `${(50 + Math.cos(angle) * r).toFixed(2)} ${(50 + Math.sin(angle) * r).toFixed(2)}`;
+  });
+  return { path: `M${points.join(' L')} Z`, bounds: [2.45, 0, 95.1, 90.45] };
+})();
+
+// Stable identity for a shape, for memo and geometry keys
+export const shapeKey = (shape: ShapeTarget) => {
+  switch (shape.kind) {
+    case 'text': return `text:${shape.text}`;
+    case 'svg': return `svg:${shape.name}:${hashString(shape.path).toString(36)}`;
+    default: return shape.kind;
+  }
+};
+
+// --- RASTERIZING ---
+
+// Long edge of the sampling canvas in pixels
+const MASK_SIZE = 384;
+const TEXT_FONT_SIZE = 160;
+const TEXT_FONT = `bold ${TEXT_FONT_SIZE}px Georgia, "Times New Roman", serif`;
+
+interface ShapeMask {
+  width: number;
+  height: number;
+  filled: Int32Array; // Pixel indices inside the shape
+}
+
+const readMask = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): ShapeMask => {
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const filled: number[] = [];
+  for (let i = 0; i < canvas.width * canvas.height; i++) {
+    if (data[i * 4 + 3] > 128) filled.push(i);
+  }
+  return { width: canvas.width, height: canvas.height, filled: Int32Array.from(filled) };
+};
+
+const rasterizePath = ({ path, bounds: [x, y, w, h] }: ShapePath): ShapeMask => {
+  const scale = MASK_SIZE / Math.max(w, h);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(w * scale));
+  canvas.height = Math.max(1, Math.ceil(h * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.scale(scale, scale);
+  ctx.translate(-x, -y);
+  ctx.fill(new Path2D(path));
+  return readMask(canvas, ctx);
+};
+
+const rasterizeText = (text: string): ShapeMask => {
+  const canvas = document.createElement('canvas');
+  let ctx = canvas.getContext('2d')!;
+  ctx.font = TEXT_FONT;
+  const width = Math.ceil(ctx.measureText(text).width) + 20;
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.ceil(TEXT_FONT_SIZE * 1.3);
+  // Resizing resets the context state
+  ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.font = TEXT_FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  return readMask(canvas, ctx);
+};
+
+const rasterize = (shape: ShapeTarget): ShapeMask => {
+  switch (shape.kind) {
+    case 'text': return rasterizeText(shape.text);
+    case 'heart': return rasterizePath(HEART);
+    case 'star': return rasterizePath(STAR);
+    case 'svg': return rasterizePath(shape);
+  }
+};
+
+// --- SAMPLING ---
+
+export interface ShapeFrame {
+  width: number; // Largest extent in world units
+  height: number;
+  centerY: number;
+  depth: number; // Thickness of the particle slab
+  z: number; // Slab center, to layer ornaments in front of foliage
+}
+
+// `count` points (xyz) covering the shape, fitted inside `frame` and facing +Z.
+// Shapes with nothing to draw (e.g. empty text) fall back to the heart.
+export const sampleShape = (shape: ShapeTarget, count: number, random: Random, frame: ShapeFrame): Float32Array => {
+  let mask = rasterize(shape);
+  if (mask.filled.length === 0) mask = rasterizePath(HEART);
+
+  const scale = Math.min(frame.width / mask.width, frame.height / mask.height);
+  const points = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const pixel = mask.filled[Math.floor(random() * mask.filled.length)];
+    const px = (pixel % mask.width) + random();
+    const py = Math.floor(pixel / mask.width) + random();
+    points[i * 3] = (px - mask.width / 2) * scale;
+    points[i * 3 + 1] = frame.centerY - (py - mask.height / 2) * scale;
+    points[i * 3 + 2] = frame.z + (random() - 0.5) * frame.depth;
+  }
+  return points;
+};
+
+// --- SVG UPLOAD ---
+
+// Pull every <path> out of an SVG document and measure them together.
+// Transforms on the paths are not applied.
+export const parseSvgShape = (svgText: string, name: string): ShapeTarget => {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) {
+    throw new ShapeError(`${name} is not a valid SVG file`);
+  }
+  const path = Array.from(doc.querySelectorAll('path'))
+    .map(el => el.getAttribute('d')?.trim() ?? '')
+    .filter(d => d !== '')
+    .join(' ');
+  if (!path) {
+    throw new ShapeError(`${name} has no <path> elements to trace`);
+  }
+
+  // getBBox only works on rendered elements, so measure in a hidden SVG
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.setAttribute('style', 'position:absolute;width:0;height:0;visibility:hidden');
+  const el = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+  el.setAttribute('d', path);
+  svg.appendChild(el);
+  document.body.appendChild(svg);
+  try {
+    const box = el.getBBox();
+    if (box.width <= 0 || box.height <= 0) {
+      throw new ShapeError(`${name} has paths with no area`);
+    }
+    return { kind: 'svg', name, path, bounds: [box.x, box.y, box.width, box.height] };
+  } finally {
+    svg.remove();
+  }
+};
@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+import { LightDrapeId, LightPatternId } from '../types';
+import { Random, randomDirection } from './random';
+
+// String lights on the foliage cone. A drape decides where the bulbs hang;
+// a pattern decides how bright each one is at a given moment.
+
+export const LIGHT_PATTERNS: { id: LightPatternId; label: string }[] = [
+  { id: 'steady', label: 'Steady' },
+  { id: 'twinkle', label: 'Twinkle' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'colorCycle', label: 'Color Cycle' },
+];
+
+export const LIGHT_DRAPES: { id: LightDrapeId; label: string }[] = [
+  { id: 'helix', label: 'Helix' },
+  { id: 'drape', label: 'Random Drape' },
+];
+
+export interface Bulb {
+  position: THREE.Vector3; // Tree-local, on the cone
+  chaosPos: THREE.Vector3;
+  along: number; // 0..1 along its strand, for chase
+  offset: number; // Stable random value, for twinkle timing and color
+}
+
+export interface DrapeParams {
+  height: number;
+  baseRadius: number;
+  count: number;
+  chaosRadius: number;
+  random: Random;
+}
+
+// Bulbs sit just outside the foliage, which fills baseRadius * (1 - h) + 0.2
+const SURFACE_GAP = 0.1;
+// Dip of the wire between two anchor points
+const SAG = 0.18;
+
+const conePoint = ({ height, baseRadius }: DrapeParams, h: number, angle: number, drop = 0) => {
+  const r = baseRadius * (1 - h) + 0.2 + SURFACE_GAP;
+  return new THREE.Vector3(Math.cos(angle) * r, h * height - height / 2 - drop, Math.sin(angle) * r);
+};
+
+const withChaos = (params: DrapeParams, position: THREE.Vector3, along: number): Bulb => {
+  const chaosPos = randomDirection(params.random).multiplyScalar(params.chaosRadius * (0.4 + params.random() * 0.6));
+  chaosPos.y += 5;
+  return { position, chaosPos, along, offset: params.random() };
+};
+
+// One strand wound bottom to top, scalloped between anchors
+const helixDrape = (params: DrapeParams): Bulb[] => {
+  const turns = 7;
+  const anchorsPerTurn = 6;
+  return Array.from({ length: params.count }, (_, i) => {
+    const t = i / params.count;
+    const h = 0.03 + t * 0.9;
+    const angle = t * turns * Math.PI * 2;
+    const swag = (t * turns * anchorsPerTurn) % 1;
+    return withChaos(params, conePoint(params, h, angle, Math.sin(swag * Math.PI) * SAG), t);
+  });
+};
+
+// Several strands slung loosely round the tree at random heights and tilts
+const randomDrape = (params: DrapeParams): Bulb[] => {
+  const strands = 6;
+  const perStrand = Math.ceil(params.count / strands);
+  const bulbs: Bulb[] = [];
+  for (let s = 0; s < strands && bulbs.length < params.count; s++) {
+    const baseH = 0.08 + (s + params.random() * 0.8) / strands * 0.8;
+    const tilt = (params.random() - 0.5) * 0.12;
+    const start = params.random() * Math.PI * 2;
+    const anchors = 5 + Math.floor(params.random() * 4);
+    for (let i = 0; i < perStrand && bulbs.length < params.count; i++) {
+      const t = i / perStrand;
+      const angle = start + t * Math.PI * 2;
+      const h = baseH + Math.sin(angle - start) * tilt;
+      const swag = (t * anchors) % 1;
+      bulbs.push(withChaos(params, conePoint(params, h, angle, Math.sin(swag * Math.PI) * SAG * 1.5), t));
+    }
+  }
+  return bulbs;
+};
+
+export const placeBulbs = (drape: LightDrapeId, params: DrapeParams): Bulb[] => {
+  return drape === 'drape' ? randomDrape(params) : helixDrape(params);
+};
+
+// --- PATTERNS ---
+
+// Bright bands travelling up the strand
+const CHASE_BANDS = 12;
+
+// Brightness factor in 0..1 for a bulb at pattern time `t`
+export const bulbLevel = (pattern: LightPatternId, bulb: Bulb, t: number) => {
+  switch (pattern) {
+    case 'steady':
+    case 'colorCycle':
+      return 1;
+    case 'twinkle': {
+      const wave = 0.5 + 0.5 * Math.sin(t * (1.5 + bulb.offset * 2.5) + bulb.offset * Math.PI * 2);
+      return 0.3 + 0.7 * wave * wave * wave;
+    }
+    case 'chase': {
+      const band = ((bulb.along * CHASE_BANDS - t) % 1 + 1) % 1;
+      return band < 0.4 ? 1 : 0.12;
+    }
+    case 'fade':
+      return 0.15 + 0.85 * (0.5 + 0.5 * Math.sin(t * 1.2));
+  }
+};
+
+// Bulb color: a fixed palette slot, or one that walks the palette in colorCycle
+export const bulbColor = (pattern: LightPatternId, bulb: Bulb, t: number, palette: THREE.Color[], target: THREE.Color) => {
+  if (pattern !== 'colorCycle') {
+    return target.copy(palette[Math.floor(bulb.offset * palette.length) % palette.length]);
+  }
+  const pos = (bulb.offset * palette.length + t * 0.5) % palette.length;
+  const i = Math.floor(pos);
+  return target.copy(palette[i]).lerp(palette[(i + 1) % palette.length], pos - i);
+};
@@ -0,0 +1,169 @@
+import * as THREE from 'three';
+import { ThemeId, TreeConfig } from '../types';
+
+// Named looks for the whole scene. Switching themes doesn't rebuild anything:
+// Scene eases a LiveTheme toward the new target every frame and the tree,
+// rail, star, lights and post-processing read their colors from it.
+
+type Palette = TreeConfig['palette'];
+
+export interface Theme {
+  id: ThemeId;
+  label: string;
+  // Ornament and foliage colors. Omitted means the designer-tuned TreeConfig palette.
+  palette?: Palette;
+  rail: string;
+  star: string;
+  lights: { ambient: string; key: string; fill: string; rim: string };
+  dust: { color: string; emissive: string };
+  background: [string, string, string]; // Radial gradient, center to edge
+  bloom: { intensity: number; threshold: number };
+  vignette: { offset: number; darkness: number };
+}
+
+export const THEMES: Theme[] = [
+  {
+    id: 'grandLuxury',
+    label: 'Grand Luxury',
+    rail: '#FFD700',
+    star: '#FFD700',
+    lights: { ambient: '#cceeff', key: '#fff0d0', fill: '#FFD700', rim: '#ff4400' },
+    dust: { color: '#FFD700', emissive: '#FFA500' },
+    background: ['#0f2e1e', '#05140a', '#000000'],
+    bloom: { intensity: 1.5, threshold: 0.85 },
+    vignette: { offset: 0.1, darkness: 0.5 },
+  },
+  {
+    id: 'silverFrost',
+    label: 'Silver Frost',
+    palette: {
+      foliage: ['#1e3a5f', '#475569', '#64748b', '#334155'],
+      boxes: ['#E5E4E2', '#C0C0C0', '#ADD8E6'],
+      balls: ['#FFFFFF', '#B0C4DE'],
+      gifts: ['#E5E4E2', '#1e3a5f', '#ADD8E6', '#FFFFFF'],
+    },
+    rail: '#E5E4E2',
+    star: '#F0F8FF',
+    lights: { ambient: '#dbeafe', key: '#f0f8ff', fill: '#93c5fd', rim: '#a5b4fc' },
+    dust: { color: '#E5E4E2', emissive: '#93c5fd' },
+    background: ['#1e293b', '#0b1220', '#000000'],
+    bloom: { intensity: 1.8, threshold: 0.8 },
+    vignette: { offset: 0.1, darkness: 0.6 },
+  },
+  {
+    id: 'candyCane',
+    label: 'Candy Cane',
+    palette: {
+      foliage: ['#052e16', '#14532d', '#166534', '#15803d'],
+      boxes: ['#DC2626', '#FFFFFF', '#DC2626', '#F9A8D4'],
+      balls: ['#FFFFFF', '#EF4444'],
+      gifts: ['#DC2626', '#FFFFFF', '#15803d', '#F9A8D4'],
+    },
+    rail: '#FF2D2D',
+    star: '#FF4D6D',
+    lights: { ambient: '#ffe4e6', key: '#fff1f2', fill: '#ff6b81', rim: '#ffffff' },
+    dust: { color: '#FFFFFF', emissive: '#ff4d6d' },
+    background: ['#3b0a14', '#1a0509', '#000000'],
+    bloom: { intensity: 1.4, threshold: 0.85 },
+    vignette: { offset: 0.1, darkness: 0.45 },
+  },
+  {
+    id: 'midnightBlue',
+    label: 'Midnight Blue',
+    palette: {
+      foliage: ['#0c1445', '#1e3a8a', '#1d4ed8', '#172554'],
+      boxes: ['#C0C0C0', '#1E40AF', '#FFD700'],
+      balls: ['#93C5FD', '#E5E7EB'],
+      gifts: ['#1E40AF', '#C0C0C0', '#FFD700', '#0c1445'],
+    },
+    rail: '#93C5FD',
+    star: '#E0E7FF',
+    lights: { ambient: '#a5b4fc', key: '#c7d2fe', fill: '#3b82f6', rim: '#8b5cf6' },
+    dust: { color: '#C7D2FE', emissive: '#3B82F6' },
+    background: ['#0b1a3d', '#050b1f', '#000000'],
+    bloom: { intensity: 2.0, threshold: 0.8 },
+    vignette: { offset: 0.15, darkness: 0.6 },
+  },
+];
+
+export const getTheme = (id: ThemeId): Theme => {
+  return THEMES.find(theme => theme.id === id) ?? THEMES[0];
+};
+
+// Palettes are stretched to a fixed number of slots so themes with different
+// palette sizes can blend slot by slot. Each particle keeps a fixed slot.
+export const PALETTE_SLOTS = 8;
+
+// Slots map to colors in order, so each color covers an equal share of particles
+const expandPalette = (colors: string[]) => {
+  return Array.from({ length: PALETTE_SLOTS }, (_, i) => new THREE.Color(colors[Math.floor(i * colors.length / PALETTE_SLOTS)]));
+};
+
+// Slot for a particle's stable random value in [0, 1)
+export const paletteSlot = (colorSeed: number) => Math.min(PALETTE_SLOTS - 1, Math.floor(colorSeed * PALETTE_SLOTS));
+
+export interface LiveTheme {
+  foliage: THREE.Color[];
+  boxes: THREE.Color[];
+  balls: THREE.Color[];
+  gifts: THREE.Color[];
+  rail: THREE.Color;
+  star: THREE.Color;
+  ambient: THREE.Color;
+  key: THREE.Color;
+  fill: THREE.Color;
+  rim: THREE.Color;
+  dust: THREE.Color;
+  dustEmissive: THREE.Color;
+  bloomIntensity: number;
+  bloomThreshold: number;
+  vignetteOffset: number;
+  vignetteDarkness: number;
+}
+
+// Fully resolved colors for a theme, ready to ease toward
+export const resolveTheme = (theme: Theme, configPalette: Palette): LiveTheme => {
+  const palette = theme.palette ?? configPalette;
+  return {
+    foliage: expandPalette(palette.foliage),
+    boxes: expandPalette(palette.boxes),
+    balls: expandPalette(palette.balls),
+    gifts: expandPalette(palette.gifts),
+    rail: new THREE.Color(theme.rail),
+    star: new THREE.Color(theme.star),
+    ambient: new THREE.Color(theme.lights.ambient),
+    key: new THREE.Color(theme.lights.key),
+    fill: new THREE.Color(theme.lights.fill),
+    rim: new THREE.Color(theme.lights.rim),
+    dust: new THREE.Color(theme.dust.color),
+    dustEmissive: new THREE.Color(theme.dust.emissive),
+    bloomIntensity: theme.bloom.intensity,
+    bloomThreshold: theme.bloom.threshold,
+    vignetteOffset: theme.vignette.offset,
+    vignetteDarkness: theme.vignette.darkness,
+  };
+};
+
+const COLOR_KEYS = ['rail', 'star', 'ambient', 'key', 'fill', 'rim', 'dust', 'dustEmissive'] as const;
+const PALETTE_KEYS = ['foliage', 'boxes', 'balls', 'gifts'] as const;
+const NUMBER_KEYS = ['bloomIntensity', 'bloomThreshold', 'vignetteOffset', 'vignetteDarkness'] as const;
+
+// Move `live` a fraction `alpha` of the way to `target`, in place
+export const stepLiveTheme = (live: LiveTheme, target: LiveTheme, alpha: number) => {
+  PALETTE_KEYS.forEach(key => live[key].forEach((c, i) => c.lerp(target[key][i], alpha)));
+  COLOR_KEYS.forEach(key => live[key].lerp(target[key], alpha));
+  NUMBER_KEYS.forEach(key => {
+    live[key] = THREE.MathUtils.lerp(live[key], target[key], alpha);
+  });
+};
+
+export const cloneLiveTheme = (theme: LiveTheme): LiveTheme => {
+  const clone = { ...theme };
+  PALETTE_KEYS.forEach(key => {
+    clone[key] = theme[key].map(c => c.clone());
+  });
+  COLOR_KEYS.forEach(key => {
+    clone[key] = theme[key].clone();
+  });
+  return clone;
+};
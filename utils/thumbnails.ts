@@ -0,0 +1,197 @@
+import { getThumbnail, saveThumbnail } from './photoStore';
+import type { ThumbnailRequest, ThumbnailResponse } from '../workers/thumbnail.worker';
+
+// Full-resolution decodes are memory hungry, so only a couple run at once
+const MAX_IN_FLIGHT = 2;
+// A clip that never finishes seeking gives up after this long
+const POSTER_TIMEOUT_MS = 10000;
+
+// Thumbnail edge length for a spiral of `photoCount` frames. Always a power of two.
+export const thumbnailSizeFor = (photoCount: number): number => {
+  if (photoCount <= 24) return 512;
+  if (photoCount <= 64) return 256;
+  return 128;
+};
+
+interface Job extends ThumbnailRequest {
+  resolve: (blob: Blob) => void;
+  reject: (err: Error) => void;
+}
+
+let worker: Worker | null = null;
+// Set once the worker fails to load or crashes; later thumbnails render on the main thread
+let workerFailed = false;
+let nextJobId = 0;
+const queue: Job[] = [];
+const inFlight = new Map<number, Job>();
+// Generations still running, so frames showing the same photo share one.
+// Finished thumbnails are cached in IndexedDB, not here.
+const pending = new Map<string, Promise<Blob>>();
+
+// Same center-crop as the worker, drawn on a regular canvas
+const renderOnMainThread = async (url: string, size: number): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const bitmap = await createImageBitmap(await response.blob());
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, size, size);
+  bitmap.close();
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode thumbnail')), 'image/jpeg', 0.85);
+  });
+};
+
+// Main-thread renders run one at a time for the same memory reason
+let mainThreadChain: Promise<unknown> = Promise.resolve();
+const renderInTurn = (url: string, size: number): Promise<Blob> => {
+  const result = mainThreadChain.then(() => renderOnMainThread(url, size));
+  mainThreadChain = result.catch(() => undefined);
+  return result;
+};
+
+// The worker is gone: hand everything it was holding to the main thread
+const abandonWorker = (err: unknown) => {
+  console.warn("Thumbnail worker failed, rendering on the main thread:", err);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  const jobs = [...inFlight.values(), ...queue];
+  inFlight.clear();
+  queue.length = 0;
+  jobs.forEach(job => renderInTurn(job.url, job.size).then(job.resolve, job.reject));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/thumbnail.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ThumbnailResponse>) => {
+      const job = inFlight.get(e.data.id);
+      if (!job) return;
+      inFlight.delete(e.data.id);
+      if ('blob' in e.data) job.resolve(e.data.blob);
+      else job.reject(new Error(e.data.error));
+      pump();
+    };
+    worker.onerror = (e) => abandonWorker(e.message || 'script error');
+    worker.onmessageerror = () => abandonWorker('unreadable message');
+  }
+  return worker;
+};
+
+const pump = () => {
+  while (!workerFailed && inFlight.size < MAX_IN_FLIGHT && queue.length > 0) {
+    const job = queue.shift()!;
+    inFlight.set(job.id, job);
+    const { id, url, size } = job;
+    getWorker().postMessage({ id, url, size } satisfies ThumbnailRequest);
+  }
+};
+
+const generate = (url: string, size: number): Promise<Blob> => {
+  if (workerFailed || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return renderInTurn(url, size);
+  }
+  return new Promise((resolve, reject) => {
+    queue.push({ id: nextJobId++, url, size, resolve, reject });
+    pump();
+  });
+};
+
+// Poster frame for a clip. Workers can't decode video, so this seeks a
+// detached <video> on the main thread and draws one frame.
+const captureVideoPoster = (url: string, size: number): Promise<Blob> => {
+  return new Promise((resolveOnce, rejectOnce) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+
+    let settled = false;
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+    };
+    const resolve = (blob: Blob) => {
+      if (!settled) resolveOnce(blob);
+      settled = true;
+    };
+    const reject = (err: Error) => {
+      if (!settled) rejectOnce(err);
+      settled = true;
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out capturing a frame of ${url}`));
+    }, POSTER_TIMEOUT_MS);
+
+    video.onloadeddata = () => {
+      // Skip the first frames, which are often black
+      video.currentTime = Math.min(0.5, video.duration / 2 || 0);
+    };
+    video.onseeked = () => {
+      if (settled) return;
+      const side = Math.min(video.videoWidth, video.videoHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || side === 0) {
+        cleanup();
+        reject(new Error('Could not draw video frame'));
+        return;
+      }
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(video, (video.videoWidth - side) / 2, (video.videoHeight - side) / 2, side, side, 0, 0, size, size);
+      cleanup();
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode poster')), 'image/jpeg', 0.85);
+    };
+    video.onerror = () => {
+      cleanup();
+      reject(new Error(`Could not load video ${url}`));
+    };
+    video.src = url;
+  });
+};
+
+// Thumbnail for the photo or clip at `url`, from the IndexedDB cache or freshly generated.
+// `key` must stay stable across reloads for the cache to hit.
+export const requestThumbnail = (key: string, url: string, size: number, isVideo = false): Promise<Blob> => {
+  const cacheKey = `${key}:${size}`;
+  let promise = pending.get(cacheKey);
+  if (!promise) {
+    promise = (async () => {
+      const cached = await getThumbnail(cacheKey).catch(() => null);
+      if (cached) return cached;
+      const blob = isVideo ? await captureVideoPoster(url, size) : await generate(url, size);
+      // Not if the photo was deleted while this was running
+      if (pending.get(cacheKey) === promise) {
+        saveThumbnail(cacheKey, blob).catch(err => console.warn("Failed to cache thumbnail:", err));
+      }
+      return blob;
+    })();
+    pending.set(cacheKey, promise);
+    // Done either way; failures can be retried and successes come from IndexedDB
+    const entry = promise;
+    const settle = () => {
+      if (pending.get(cacheKey) === entry) pending.delete(cacheKey);
+    };
+    entry.then(settle, settle);
+  }
+  return promise;
+};
+
+// Forget generations in progress for a deleted photo, of every size
+export const forgetThumbnails = (key: string) => {
+  const prefix = `${key}:`;
+  [...pending.keys()].forEach(cacheKey => {
+    if (cacheKey.startsWith(prefix)) pending.delete(cacheKey);
+  });
+};
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+// Imported tree toppers. A glTF/GLB file is parsed in the browser, centered on
+// the origin and scaled so its longest edge matches the built-in toppers.
+
+// Raised when a file can't be used as a topper
+export class TopperError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TopperError';
+  }
+}
+
+export interface TopperModel {
+  name: string;
+  object: THREE.Object3D;
+}
+
+// Only self-contained files work: a .glb, or a .gltf with its buffers and
+// textures embedded, since sibling files can't be reached from a file picker.
+export const loadTopperModel = async (file: File, size: number): Promise<TopperModel> => {
+  let gltf;
+  try {
+    gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+  } catch (err) {
+    throw new TopperError(`${file.name} could not be read as glTF: ${(err as Error).message}`);
+  }
+
+  const model = gltf.scene;
+  const box = new THREE.Box3().setFromObject(model);
+  if (box.isEmpty()) {
+    throw new TopperError(`${file.name} has no visible geometry`);
+  }
+  const extent = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = size / Math.max(extent.x, extent.y, extent.z);
+
+  model.position.copy(center).multiplyScalar(-scale);
+  model.scale.setScalar(scale);
+  model.traverse(child => {
+    if ((child as THREE.Mesh).isMesh) child.castShadow = true;
+  });
+
+  // Wrapped so the normalizing transform survives whatever Decorations does to its parent
+  const object = new THREE.Group();
+  object.add(model);
+  return { name: file.name, object };
+};
+
+// Frees the GPU resources of a topper that's been replaced
+export const disposeTopperModel = (model: TopperModel) => {
+  model.object.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    mesh.geometry.dispose();
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach(material => {
+      Object.values(material).forEach(value => {
+        if (value instanceof THREE.Texture) value.dispose();
+      });
+      material.dispose();
+    });
+  });
+};
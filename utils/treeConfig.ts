@@ -0,0 +1,115 @@
+import { TreeConfig } from '../types';
+
+export const DEFAULT_TREE_CONFIG: TreeConfig = {
+  height: 14,
+  baseRadius: 5.0,
+  foliageCount: 5500,
+  boxCount: 180,
+  ballCount: 450,
+  chaosRadius: 20,
+  starOffset: 0.8,
+  giftCount: 9,
+  palette: {
+    foliage: [
+      '#022c22', // Darkest Emerald
+      '#166534', // Jewel Green
+      '#059669', // Bright Emerald
+      '#065f46', // Tealish Green
+    ],
+    boxes: ['#FFD700', '#FFD700', '#8B0000', '#B8860B'],
+    balls: ['#C0C0C0', '#FF0000'],
+    gifts: ['#8B0000', '#FFD700', '#0B3D2E', '#F5F5DC'],
+  },
+};
+
+type NumericField = Exclude<keyof TreeConfig, 'palette'>;
+type PaletteField = keyof TreeConfig['palette'];
+
+interface FieldLimits {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+// Allowed ranges, shared by validation and the config panel sliders
+export const TREE_CONFIG_LIMITS: Record<NumericField, FieldLimits> = {
+  height: { label: 'Height', min: 6, max: 24, step: 0.5 },
+  baseRadius: { label: 'Base Radius', min: 2, max: 9, step: 0.1 },
+  foliageCount: { label: 'Foliage', min: 500, max: 150000, step: 500, integer: true },
+  boxCount: { label: 'Boxes', min: 0, max: 600, step: 10, integer: true },
+  ballCount: { label: 'Balls', min: 0, max: 1500, step: 10, integer: true },
+  chaosRadius: { label: 'Chaos Radius', min: 8, max: 40, step: 1 },
+  starOffset: { label: 'Star Offset', min: 0, max: 3, step: 0.1 },
+  giftCount: { label: 'Gifts', min: 0, max: 24, step: 1, integer: true },
+};
+
+export const PALETTE_FIELDS: { key: PaletteField, label: string }[] = [
+  { key: 'foliage', label: 'Foliage' },
+  { key: 'boxes', label: 'Boxes' },
+  { key: 'balls', label: 'Balls' },
+  { key: 'gifts', label: 'Gifts' },
+];
+
+const MAX_PALETTE_SIZE = 8;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Raised when a config cannot be used. `issues` holds one readable line per problem.
+export class TreeConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid tree config:\n${issues.join('\n')}`);
+    this.name = 'TreeConfigError';
+    this.issues = issues;
+  }
+}
+
+// Problems with a config, one line each. Empty means the config is usable.
+export const validateTreeConfig = (config: TreeConfig): string[] => {
+  const issues: string[] = [];
+
+  (Object.keys(TREE_CONFIG_LIMITS) as NumericField[]).forEach(key => {
+    const { min, max, integer } = TREE_CONFIG_LIMITS[key];
+    const value = config[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`"${key}" must be a number`);
+    } else if (value < min || value > max) {
+      issues.push(`"${key}" must be between ${min} and ${max}`);
+    } else if (integer && !Number.isInteger(value)) {
+      issues.push(`"${key}" must be a whole number`);
+    }
+  });
+
+  PALETTE_FIELDS.forEach(({ key }) => {
+    const colors = config.palette?.[key];
+    if (!Array.isArray(colors) || colors.length === 0 || colors.length > MAX_PALETTE_SIZE) {
+      issues.push(`"palette.${key}" must list 1 to ${MAX_PALETTE_SIZE} colors`);
+      return;
+    }
+    colors.forEach((color, i) => {
+      if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+        issues.push(`"palette.${key}[${i}]" must be a hex color such as "#FFD700"`);
+      }
+    });
+  });
+
+  return issues;
+};
+
+// Fill gaps from the defaults and validate. Throws a TreeConfigError listing every problem.
+export const parseTreeConfig = (raw: unknown): TreeConfig => {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new TreeConfigError(['config must be an object']);
+  }
+  const partial = raw as Partial<TreeConfig>;
+  const config: TreeConfig = {
+    ...DEFAULT_TREE_CONFIG,
+    ...partial,
+    palette: { ...DEFAULT_TREE_CONFIG.palette, ...partial.palette },
+  };
+  const issues = validateTreeConfig(config);
+  if (issues.length > 0) throw new TreeConfigError(issues);
+  return config;
+};
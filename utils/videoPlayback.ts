@@ -0,0 +1,18 @@
+// Caps how many frame videos decode at once. Each playing <video> holds a
+// hardware decoder and a texture upload per frame, so a tree full of clips
+// would otherwise stall the GPU.
+export const MAX_PLAYING_VIDEOS = 4;
+
+const holders = new Set<object>();
+
+// Claim a playback slot for `owner`. Returns false when all slots are taken.
+export const acquireVideoSlot = (owner: object): boolean => {
+  if (holders.has(owner)) return true;
+  if (holders.size >= MAX_PLAYING_VIDEOS) return false;
+  holders.add(owner);
+  return true;
+};
+
+export const releaseVideoSlot = (owner: object) => {
+  holders.delete(owner);
+};
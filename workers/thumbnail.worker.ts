@@ -0,0 +1,46 @@
+// Decodes photos and renders square, power-of-two thumbnails off the main thread.
+// The source is fetched here too, so both static paths and blob: URLs work.
+
+export interface ThumbnailRequest {
+  id: number;
+  url: string;
+  size: number;
+}
+
+export type ThumbnailResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<ThumbnailRequest>) => void) | null;
+  postMessage: (message: ThumbnailResponse) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const renderThumbnail = async ({ url, size }: ThumbnailRequest): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const bitmap = await createImageBitmap(await response.blob());
+
+  // Center-crop to a square, matching the photo area of the polaroid
+  const side = Math.min(bitmap.width, bitmap.height);
+  const sx = (bitmap.width - side) / 2;
+  const sy = (bitmap.height - side) / 2;
+
+  const canvas = new OffscreenCanvas(size, size);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, sx, sy, side, side, 0, 0, size, size);
+  bitmap.close();
+
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+};
+
+scope.onmessage = (e) => {
+  const request = e.data;
+  renderThumbnail(request)
+    .then(blob => scope.postMessage({ id: request.id, blob }))
+    .catch(err => scope.postMessage({ id: request.id, error: err instanceof Error ? err.message : String(err) }));
+};